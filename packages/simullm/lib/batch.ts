@@ -0,0 +1,77 @@
+import type {
+  AgentStateMap,
+  BatchOptions,
+  BatchRun,
+  ParameterGrid,
+} from "./types";
+import type { EventSimulation } from "./simulation";
+import { createSimulation } from "./simulation";
+
+/**
+ * Every combination of the values in a parameter grid
+ */
+const expandGrid = <TParams extends object>(
+  grid: ParameterGrid<TParams>
+): TParams[] =>
+  Object.entries(grid).reduce<Record<string, unknown>[]>(
+    (combinations, [key, values]) =>
+      combinations.flatMap((combination) =>
+        (values as unknown[]).map((value) => ({ ...combination, [key]: value }))
+      ),
+    [{}]
+  ) as TParams[];
+
+/**
+ * Run a simulation for every combination of parameters and seeds, up to
+ * `concurrency` at a time, and collect the results in parameter order
+ */
+export const runBatch = async <
+  TParams extends object,
+  TGlobalState,
+  TAction,
+  TAgentStates extends AgentStateMap = AgentStateMap
+>(
+  options: BatchOptions<TParams, TGlobalState, TAction, TAgentStates>
+): Promise<BatchRun<TParams, TGlobalState, TAction, TAgentStates>[]> => {
+  const { build, seeds = [0], concurrency = 1 } = options;
+  const combinations = Array.isArray(options.params)
+    ? options.params
+    : expandGrid(options.params);
+  const runs = combinations.flatMap((params) =>
+    seeds.map((seed) => ({ params, seed }))
+  );
+
+  const start =
+    options.start ??
+    ((simulation: EventSimulation<TGlobalState, TAction, TAgentStates>) =>
+      simulation.run());
+
+  const rows: BatchRun<TParams, TGlobalState, TAction, TAgentStates>[] = [];
+  let nextRun = 0;
+
+  const worker = async () => {
+    while (nextRun < runs.length) {
+      const index = nextRun++;
+      const { params, seed } = runs[index]!;
+      const simulation = createSimulation({ seed, ...build(params, seed) });
+
+      try {
+        await start(simulation, params, seed);
+        // A run whose actions ran out before `shouldExit` fired would never exit
+        await simulation.endIfIdle();
+      } catch (error) {
+        // Fail-fast agent errors have already ended the run
+        await simulation.abort(error);
+      }
+
+      rows[index] = { params, seed, result: await simulation.exit() };
+      options.onRunComplete?.(rows[index]!, index, runs.length);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(concurrency, runs.length)) }, worker)
+  );
+
+  return rows;
+};
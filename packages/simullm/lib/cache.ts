@@ -0,0 +1,104 @@
+import { createHash, randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { ZodType } from "zod";
+import type { LLMCache, LLMResponse } from "./types";
+
+/**
+ * Stable description of a zod schema's structure. Refinements and
+ * transforms are functions, so changes to them don't change the description.
+ */
+const describeSchema = (schema: ZodType<any, any, any>): string =>
+  JSON.stringify(schema, (key, value) => {
+    if (value instanceof ZodType) {
+      return value._def;
+    }
+    if (typeof value === "function") {
+      return key === "shape" ? value() : undefined;
+    }
+    return value;
+  });
+
+interface CallRequest {
+  model: string;
+  system?: string;
+  prompt: string;
+  schema: ZodType<any, any, any>;
+  seed: number;
+}
+
+/**
+ * Identifies an LLM call by a hash of the model, prompts, schema and seed,
+ * so identical calls can be counted without keeping their prompts
+ */
+export const getCallKey = (request: CallRequest): string =>
+  createHash("sha256")
+    .update(
+      JSON.stringify([
+        request.model,
+        request.system ?? "",
+        request.prompt,
+        describeSchema(request.schema),
+        request.seed,
+      ])
+    )
+    .digest("hex");
+
+/**
+ * Cache key for an LLM call: a hash of the model, prompts, schema and seed,
+ * plus how many identical calls came before it in the run so repeated
+ * prompts replay their own completions
+ */
+export const getCacheKey = (
+  request: CallRequest & { occurrence: number }
+): string =>
+  createHash("sha256")
+    .update(
+      JSON.stringify([
+        request.model,
+        request.system ?? "",
+        request.prompt,
+        describeSchema(request.schema),
+        request.seed,
+        request.occurrence,
+      ])
+    )
+    .digest("hex");
+
+/**
+ * Cache LLM responses in memory, e.g. across the runs of a batch
+ */
+export const createMemoryCache = (): LLMCache => {
+  const responses = new Map<string, LLMResponse<unknown>>();
+
+  return {
+    get: async (key) => responses.get(key),
+    set: async (key, response) => {
+      responses.set(key, response);
+    },
+  };
+};
+
+/**
+ * Cache LLM responses as JSON files in a directory, so re-running an
+ * experiment reuses earlier completions. Files are written under a temporary
+ * name and renamed, so concurrent runs never read one half-written.
+ */
+export const createFileCache = (directory: string): LLMCache => ({
+  get: async (key) => {
+    try {
+      return JSON.parse(await readFile(join(directory, `${key}.json`), "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+  },
+  set: async (key, response) => {
+    await mkdir(directory, { recursive: true });
+    const temporary = join(directory, `${key}.${randomUUID()}.tmp`);
+    await writeFile(temporary, JSON.stringify(response, null, 2));
+    await rename(temporary, join(directory, `${key}.json`));
+  },
+});
@@ -3,11 +3,66 @@
 
 // Export all types
 export type {
+  ActionHandlers,
+  ActionTarget,
+  ActionType,
   Agent,
+  AgentError,
+  AgentInfo,
+  AgentOptions,
+  AgentStateMap,
+  AgentStats,
+  BatchOptions,
+  BatchRun,
   Context,
+  DispatchErrorPolicy,
+  DispatchOptions,
+  ErrorPolicy,
+  ExecutionMode,
+  ExitContext,
+  ExitReason,
+  LLMAgentOptions,
+  LLMCallOptions,
+  LLMClient,
+  LLMPool,
+  LLMPoolCaller,
+  LLMPoolLimits,
+  LLMPricing,
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  LLMUsage,
+  LLMUsageReport,
+  LLMAgentState,
+  LLMCache,
+  LLMCall,
+  Middleware,
+  MockProvider,
+  OnExitContext,
+  ParameterGrid,
+  Random,
   SimulationConfig,
+  SimulationContext,
+  SimulationEvent,
+  SimulationEventMap,
+  SimulationEventType,
+  SimulationResult,
   ActionDispatcher,
+  EventLog,
+  EventLogEntry,
+  ScheduledAction,
+  ScheduleOptions,
+  SimulationSnapshot,
+  StateConflict,
+  StateChange,
 } from "./types";
 
 // Export the main simulation class and utilities
 export { EventSimulation, createSimulation, createAgent } from "./simulation";
+export { createRandom } from "./random";
+export { ValidationError } from "./validation";
+export { ActionTimeoutError, LLMBudgetError } from "./limits";
+export { runBatch } from "./batch";
+export { createLLMAgent, createAISDKProvider, createMockProvider } from "./llm";
+export { createMemoryCache, createFileCache } from "./cache";
+export { createLLMPool } from "./pool";
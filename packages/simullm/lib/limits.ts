@@ -0,0 +1,54 @@
+/**
+ * Thrown when an agent takes longer than `actionTimeoutMs` to handle an
+ * action
+ */
+export class ActionTimeoutError extends Error {
+  readonly agentId: string;
+  readonly timeoutMs: number;
+
+  constructor(agentId: string, timeoutMs: number) {
+    super(`Agent "${agentId}" did not handle the action within ${timeoutMs}ms`);
+    this.name = "ActionTimeoutError";
+    this.agentId = agentId;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Thrown by `context.llm` calls made once the run's `llmBudget` has been
+ * exceeded
+ */
+export class LLMBudgetError extends Error {
+  constructor() {
+    super("The simulation's LLM budget has been exceeded");
+    this.name = "LLMBudgetError";
+  }
+}
+
+/**
+ * Race a handler's result against a timeout. The handler itself keeps
+ * running; only the wait for it is abandoned.
+ */
+export const withTimeout = async <T>(
+  result: T | Promise<T>,
+  timeoutMs: number | undefined,
+  agentId: string
+): Promise<T> => {
+  if (timeoutMs === undefined || !(result instanceof Promise)) {
+    return result;
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(
+      () => reject(new ActionTimeoutError(agentId, timeoutMs)),
+      timeoutMs
+    );
+  });
+
+  try {
+    return await Promise.race([result, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
@@ -0,0 +1,156 @@
+import { generateObject, type LanguageModel } from "ai";
+import type {
+  Agent,
+  AgentStateMap,
+  LLMAgentOptions,
+  LLMAgentState,
+  LLMProvider,
+  LLMRequest,
+  MockProvider,
+} from "./types";
+import { LLMBudgetError } from "./limits";
+import { createAgent } from "./simulation";
+
+/**
+ * Provider backed by an AI SDK language model. Retries are left to the
+ * caller, so the SDK's own retries are turned off.
+ */
+export const createAISDKProvider = (model: LanguageModel): LLMProvider => ({
+  id: `${model.provider}:${model.modelId}`,
+  generateObject: async ({ schema, prompt, system, signal }) => {
+    const { object, usage } = await generateObject({
+      model,
+      schema,
+      system,
+      prompt,
+      maxRetries: 0,
+      abortSignal: signal,
+    });
+    return {
+      object,
+      usage: {
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+      },
+    };
+  },
+});
+
+/**
+ * Offline provider for tests. Answers with the scripted responses in order,
+ * or with whatever `responses` returns when given a function. Responses are
+ * checked against the request's schema, and token usage is estimated from
+ * text length (about four characters per token).
+ */
+export const createMockProvider = (
+  responses: unknown[] | ((request: LLMRequest<unknown>) => unknown)
+): MockProvider => {
+  const requests: LLMRequest<unknown>[] = [];
+
+  return {
+    id: "mock",
+    requests,
+    generateObject: async <T>(request: LLMRequest<T>) => {
+      requests.push(request);
+      if (Array.isArray(responses) && requests.length > responses.length) {
+        throw new Error(
+          `Mock provider has no response for request ${requests.length}`
+        );
+      }
+
+      const response = Array.isArray(responses)
+        ? responses[requests.length - 1]
+        : await responses(request);
+      const object = request.schema.parse(response);
+      const text = `${request.system ?? ""}${request.prompt}`;
+      return {
+        object,
+        usage: {
+          promptTokens: Math.ceil(text.length / 4),
+          completionTokens: Math.ceil(JSON.stringify(object).length / 4),
+        },
+      };
+    },
+  };
+};
+
+/**
+ * Create an agent that asks a language model for a structured decision
+ * whenever `buildPrompt` returns a prompt, and passes it to `onDecision`.
+ * Malformed or failed responses are retried, and the most recent decisions
+ * are kept in the agent's internal state and included in later prompts.
+ */
+export const createLLMAgent = <
+  TGlobalState,
+  TAction,
+  TDecision,
+  TAgentStates extends AgentStateMap = AgentStateMap
+>(
+  options: LLMAgentOptions<TGlobalState, TAction, TDecision, TAgentStates>
+): Agent<TGlobalState, TAction, LLMAgentState<TDecision>, TAgentStates> => {
+  const {
+    id,
+    persona,
+    schema,
+    model,
+    buildPrompt,
+    onDecision,
+    retries = 2,
+    memory = 0,
+    ...agentOptions
+  } = options;
+  const provider =
+    model && ("generateObject" in model ? model : createAISDKProvider(model));
+
+  return createAgent<
+    TGlobalState,
+    TAction,
+    LLMAgentState<TDecision>,
+    TAgentStates
+  >(
+    id,
+    async (action, context) => {
+      const prompt = buildPrompt(action, context);
+      if (prompt === undefined) {
+        return;
+      }
+
+      const { memory: recent } = context.getInternalState();
+      const fullPrompt =
+        recent.length > 0
+          ? `${prompt}\n\nYour previous decisions, oldest first:\n${recent
+              .map((decision) => JSON.stringify(decision))
+              .join("\n")}`
+          : prompt;
+
+      let decision: TDecision;
+      for (let attempt = 0; ; attempt++) {
+        try {
+          decision = await context.llm.generateObject(schema, fullPrompt, {
+            system: persona,
+            provider,
+          });
+          break;
+        } catch (error) {
+          if (
+            attempt >= retries ||
+            context.signal.aborted ||
+            error instanceof LLMBudgetError
+          ) {
+            throw error;
+          }
+        }
+      }
+
+      if (memory > 0) {
+        context.updateInternalState((state) => ({
+          ...state,
+          memory: [...state.memory, decision].slice(-memory),
+        }));
+      }
+      await onDecision(decision, action, context);
+    },
+    { memory: [] },
+    agentOptions
+  );
+};
@@ -0,0 +1,140 @@
+import type {
+  LLMPool,
+  LLMPoolCaller,
+  LLMPoolLimits,
+  LLMResponse,
+} from "./types";
+
+const WINDOW_MS = 60_000;
+
+interface Waiter {
+  tokens: number;
+  start: () => void;
+}
+
+/**
+ * Create a pool that limits concurrent LLM calls and their requests and
+ * tokens per minute. Waiting calls are started round-robin across agents,
+ * least recently served first, so one busy agent can't starve the others.
+ * Agents of different simulations sharing the pool take separate turns.
+ * Tokens are counted from the estimate until a call reports its actual
+ * usage.
+ */
+export const createLLMPool = (limits: LLMPoolLimits = {}): LLMPool => {
+  const {
+    concurrency = Infinity,
+    requestsPerMinute = Infinity,
+    tokensPerMinute = Infinity,
+  } = limits;
+  for (const [name, limit] of Object.entries(limits)) {
+    if (limit !== undefined && !(limit > 0)) {
+      throw new Error(`LLM pool ${name} must be positive, got ${limit}`);
+    }
+  }
+
+  // Waiting calls by simulation and agent, in the order they started waiting
+  const queues = new Map<string, Waiter[]>();
+  const lastServed = new Map<string, number>();
+  let turn = 0;
+  const window: { at: number; tokens: number }[] = [];
+  let active = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const pump = () => {
+    const now = Date.now();
+    while (window.length > 0 && window[0]!.at <= now - WINDOW_MS) {
+      window.shift();
+    }
+
+    while (queues.size > 0 && active < concurrency) {
+      let key = queues.keys().next().value!;
+      for (const candidate of queues.keys()) {
+        if ((lastServed.get(candidate) ?? -1) < (lastServed.get(key) ?? -1)) {
+          key = candidate;
+        }
+      }
+      const waiting = queues.get(key)!;
+      const waiter = waiting[0]!;
+      const tokens = window.reduce((sum, call) => sum + call.tokens, 0);
+      // An empty window always admits a call, however large its estimate
+      if (
+        window.length >= requestsPerMinute ||
+        (window.length > 0 && tokens + waiter.tokens > tokensPerMinute)
+      ) {
+        timer ??= setTimeout(() => {
+          timer = undefined;
+          pump();
+        }, window[0]!.at + WINDOW_MS - now);
+        return;
+      }
+
+      waiting.shift();
+      if (waiting.length === 0) {
+        queues.delete(key);
+      }
+      lastServed.set(key, turn++);
+      waiter.start();
+    }
+  };
+
+  return {
+    schedule: <T>(
+      caller: LLMPoolCaller,
+      estimatedTokens: number,
+      call: () => Promise<LLMResponse<T>>,
+      signal?: AbortSignal
+    ) =>
+      new Promise<LLMResponse<T>>((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(signal.reason);
+          return;
+        }
+        const key = JSON.stringify([caller.simulationId, caller.agentId]);
+
+        const onAbort = () => {
+          const waiting = queues.get(key) ?? [];
+          waiting.splice(waiting.indexOf(waiter), 1);
+          if (waiting.length === 0) {
+            queues.delete(key);
+          }
+          if (queues.size === 0) {
+            clearTimeout(timer);
+            timer = undefined;
+          }
+          reject(signal!.reason);
+        };
+
+        const waiter: Waiter = {
+          tokens: estimatedTokens,
+          start: () => {
+            signal?.removeEventListener("abort", onAbort);
+            const entry = { at: Date.now(), tokens: estimatedTokens };
+            window.push(entry);
+            active++;
+
+            call()
+              .then((response) => {
+                if (response.usage) {
+                  entry.tokens =
+                    response.usage.promptTokens + response.usage.completionTokens;
+                }
+                resolve(response);
+              }, reject)
+              .finally(() => {
+                active--;
+                pump();
+              });
+          },
+        };
+
+        signal?.addEventListener("abort", onAbort, { once: true });
+        const waiting = queues.get(key);
+        if (waiting) {
+          waiting.push(waiter);
+        } else {
+          queues.set(key, [waiter]);
+        }
+        pump();
+      }),
+  };
+};
@@ -0,0 +1,56 @@
+import type { Random } from "./types";
+
+/**
+ * Create a seeded pseudo-random number generator (mulberry32). The same seed
+ * always produces the same sequence, and `createRandom(random.getState())`
+ * continues a sequence where `random` left off.
+ */
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    pick: <T>(items: readonly T[]): T => {
+      if (items.length === 0) {
+        throw new Error("Cannot pick from an empty array");
+      }
+      return items[Math.floor(next() * items.length)]!;
+    },
+    shuffle: <T>(items: readonly T[]): T[] => {
+      const result = [...items];
+      for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(next() * (i + 1));
+        [result[i], result[j]] = [result[j]!, result[i]!];
+      }
+      return result;
+    },
+    normal: (mean = 0, stdDev = 1) => {
+      // Box-Muller transform; 1 - next() keeps the logarithm finite
+      const radius = Math.sqrt(-2 * Math.log(1 - next()));
+      return mean + stdDev * radius * Math.cos(2 * Math.PI * next());
+    },
+    getState: () => state,
+  };
+};
+
+/**
+ * Derive an independent seed for a named stream (e.g. an agent id) from a
+ * simulation seed, so adding a stream doesn't shift the others (FNV-1a)
+ */
+export const deriveSeed = (seed: number, key: string): number => {
+  let hash = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+};
@@ -1,5 +1,24 @@
 import { describe, it, expect } from "bun:test";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { MockLanguageModelV1 } from "ai/test";
+import { z } from "zod";
 import { createSimulation, createAgent } from "./simulation.ts";
+import { ValidationError } from "./validation.ts";
+import { ActionTimeoutError, LLMBudgetError } from "./limits.ts";
+import { createRandom } from "./random.ts";
+import { runBatch } from "./batch.ts";
+import { createLLMAgent, createMockProvider } from "./llm.ts";
+import { createFileCache, createMemoryCache } from "./cache.ts";
+import { createLLMPool } from "./pool.ts";
+import type {
+  Agent,
+  LLMCall,
+  LLMProvider,
+  LLMResponse,
+  SimulationConfig,
+} from "./types.ts";
 
 describe("ABM Framework", () => {
   describe("Event-Driven Framework (Primary API)", () => {
@@ -544,9 +563,9 @@ describe("ABM Framework", () => {
             simulation.exit(),
           ]);
 
-          expect(result1).toBeUndefined();
-          expect(result2).toBeUndefined();
-          expect(result3).toBeUndefined();
+          expect(result1.globalState).toBe(5);
+          expect(result2).toBe(result1);
+          expect(result3).toBe(result1);
           expect(simulation.hasSimulationExited()).toBe(true);
         });
 
@@ -817,6 +836,3097 @@ describe("ABM Framework", () => {
           });
         });
       });
+
+      describe("Action Routing", () => {
+        const createRecipients = (received: string[]) => [
+          createAgent<number, TestAction, { level: number }>(
+            "fighter",
+            (action) => {
+              received.push(`fighter:${action.type}`);
+            },
+            { level: 3 },
+            { tags: ["adventurer"] }
+          ),
+          createAgent<number, TestAction, { level: number }>(
+            "wizard",
+            (action) => {
+              received.push(`wizard:${action.type}`);
+            },
+            { level: 5 },
+            { tags: ["adventurer", "caster"] }
+          ),
+          createAgent<number, TestAction>("narrator", (action) => {
+            received.push(`narrator:${action.type}`);
+          }),
+        ];
+
+        it("should broadcast to all agents by default", async () => {
+          const received: string[] = [];
+          const simulation = createSimulation<number, TestAction>({
+            initialGlobalState: 0,
+            agents: createRecipients(received),
+            shouldExit: () => false,
+          });
+
+          await simulation.dispatch({ type: "START" });
+
+          expect(received).toEqual([
+            "fighter:START",
+            "wizard:START",
+            "narrator:START",
+          ]);
+        });
+
+        it("should route actions to an agent id or a list of ids", async () => {
+          const received: string[] = [];
+          const simulation = createSimulation<number, TestAction>({
+            initialGlobalState: 0,
+            agents: createRecipients(received),
+            shouldExit: () => false,
+          });
+
+          await simulation.dispatch({ type: "START" }, { to: "wizard" });
+          await simulation.dispatch({ type: "DOUBLE" }, { to: ["narrator", "fighter"] });
+
+          expect(received).toEqual([
+            "wizard:START",
+            "fighter:DOUBLE",
+            "narrator:DOUBLE",
+          ]);
+        });
+
+        it("should route actions by tag or predicate", async () => {
+          const received: string[] = [];
+          const simulation = createSimulation<number, TestAction>({
+            initialGlobalState: 0,
+            agents: createRecipients(received),
+            shouldExit: () => false,
+          });
+
+          await simulation.dispatch({ type: "START" }, { to: { tag: "adventurer" } });
+          await simulation.dispatch(
+            { type: "DOUBLE" },
+            { to: (agent) => agent.internalState?.level >= 5 }
+          );
+
+          expect(received).toEqual([
+            "fighter:START",
+            "wizard:START",
+            "wizard:DOUBLE",
+          ]);
+        });
+
+        it("should route actions dispatched by agents", async () => {
+          const received: string[] = [];
+          const dm = createAgent<number, TestAction>("dm", (action, context) => {
+            if (action.type === "START") {
+              context.dispatch(
+                { type: "COMPLETED", agentId: "dm" },
+                { to: { tag: "caster" } }
+              );
+            }
+          });
+
+          const simulation = createSimulation<number, TestAction>({
+            initialGlobalState: 0,
+            agents: [dm, ...createRecipients(received)],
+            shouldExit: () => false,
+          });
+
+          await simulation.dispatch({ type: "START" }, { to: "dm" });
+
+          expect(received).toEqual(["wizard:COMPLETED"]);
+        });
+      });
+
+      describe("Action Subscriptions", () => {
+        it("should only deliver subscribed action types", async () => {
+          const received: string[] = [];
+          const doubler = createAgent<number, TestAction>(
+            "doubler",
+            (action, context) => {
+              received.push(`doubler:${action.type}`);
+              context.updateGlobalState((state) => state * 2);
+            },
+            undefined,
+            { subscribes: ["DOUBLE"] }
+          );
+          const listener = createAgent<number, TestAction>(
+            "listener",
+            (action) => {
+              received.push(`listener:${action.type}`);
+            }
+          );
+
+          const simulation = createSimulation<number, TestAction>({
+            initialGlobalState: 3,
+            agents: [doubler, listener],
+            shouldExit: () => false,
+          });
+
+          await simulation.dispatch({ type: "START" });
+          await simulation.dispatch({ type: "DOUBLE" });
+
+          expect(received).toEqual([
+            "listener:START",
+            "doubler:DOUBLE",
+            "listener:DOUBLE",
+          ]);
+          expect(simulation.getGlobalState()).toBe(6);
+        });
+
+        it("should call per-type handlers with the narrowed action", async () => {
+          const counter: Agent<number, TestAction> = {
+            id: "counter",
+            handlers: {
+              INCREMENT: (action, context) => {
+                context.updateGlobalState((state) => state + action.amount);
+              },
+              DOUBLE: (action, context) => {
+                context.updateGlobalState((state) => state * 2);
+              },
+            },
+          };
+
+          const simulation = createSimulation<number, TestAction>({
+            initialGlobalState: 1,
+            agents: [counter],
+            shouldExit: () => false,
+          });
+
+          await simulation.dispatch({ type: "INCREMENT", amount: 4 });
+          await simulation.dispatch({ type: "DOUBLE" });
+          await simulation.dispatch({ type: "START" });
+
+          expect(simulation.getGlobalState()).toBe(10);
+        });
+
+        it("should report actions nobody handles", async () => {
+          const agent = createAgent<number, TestAction>(
+            "incrementer",
+            () => {},
+            undefined,
+            { subscribes: ["INCREMENT"] }
+          );
+
+          const simulation = createSimulation<number, TestAction>({
+            initialGlobalState: 0,
+            agents: [agent],
+            shouldExit: () => false,
+          });
+
+          await simulation.dispatch({ type: "START" });
+          await simulation.dispatch({ type: "INCREMENT", amount: 1 });
+          await simulation.dispatch({ type: "START" });
+          await simulation.dispatch({ type: "DOUBLE" });
+
+          expect(simulation.getUnhandledActionTypes()).toEqual({
+            START: 2,
+            DOUBLE: 1,
+          });
+          expect(simulation.getActionCount()).toBe(4);
+        });
+      });
+
+      describe("Spawning and Removing Agents", () => {
+        type LifeAction =
+          | { type: "BREED"; parent: string }
+          | { type: "HUNT"; prey: string }
+          | { type: "TICK" };
+
+        const createRabbit = (id: string, received: string[]) =>
+          createAgent<number, LifeAction, { age: number }>(
+            id,
+            (action, context) => {
+              received.push(`${id}:${action.type}`);
+              if (action.type === "BREED" && action.parent === id) {
+                context.spawnAgent(createRabbit(`${id}-kit`, received));
+                context.updateGlobalState((births) => births + 1);
+              }
+            },
+            { age: 0 }
+          );
+
+        it("should add spawned agents once the current action finishes", async () => {
+          const received: string[] = [];
+          let agentsDuringTick: string[] = [];
+          const observer = createAgent<number, LifeAction>(
+            "observer",
+            (action, context) => {
+              if (action.type === "TICK") {
+                agentsDuringTick = context.allAgents.map((agent) => agent.id);
+              }
+            }
+          );
+
+          const simulation = createSimulation<number, LifeAction>({
+            initialGlobalState: 0,
+            agents: [createRabbit("rabbit", received), observer],
+            shouldExit: () => false,
+          });
+
+          await simulation.dispatch({ type: "BREED", parent: "rabbit" });
+          await simulation.dispatch({ type: "TICK" });
+
+          expect(received).toEqual([
+            "rabbit:BREED",
+            "rabbit:TICK",
+            "rabbit-kit:TICK",
+          ]);
+          expect(agentsDuringTick).toEqual(["rabbit", "observer", "rabbit-kit"]);
+          expect(simulation.getAllAgentStates()).toEqual({
+            rabbit: { age: 0 },
+            observer: undefined,
+            "rabbit-kit": { age: 0 },
+          });
+        });
+
+        it("should remove agents and their state", async () => {
+          const received: string[] = [];
+          const fox = createAgent<number, LifeAction>("fox", (action, context) => {
+            if (action.type === "HUNT") {
+              context.removeAgent(action.prey);
+              context.removeAgent(action.prey); // Removing twice is harmless
+            }
+          });
+
+          const simulation = createSimulation<number, LifeAction>({
+            initialGlobalState: 0,
+            agents: [fox, createRabbit("rabbit", received)],
+            shouldExit: ({ agentStates }) => !("rabbit" in agentStates),
+          });
+
+          await simulation.dispatch({ type: "HUNT", prey: "rabbit" });
+          await simulation.dispatch({ type: "TICK" });
+
+          // The rabbit still receives the action that removed it
+          expect(received).toEqual(["rabbit:HUNT"]);
+          expect(simulation.getAgentInternalState("rabbit")).toBeUndefined();
+          expect(simulation.hasSimulationExited()).toBe(true);
+        });
+
+        it("should spawn and remove agents directly on the simulation", async () => {
+          const received: string[] = [];
+          const simulation = createSimulation<number, LifeAction>({
+            initialGlobalState: 0,
+            agents: [],
+            shouldExit: () => false,
+          });
+
+          simulation.spawnAgent(createRabbit("rabbit", received));
+          expect(() => simulation.spawnAgent(createRabbit("rabbit", received))).toThrow(
+            'Agent "rabbit" already exists'
+          );
+          await simulation.dispatch({ type: "TICK" });
+          simulation.removeAgent("rabbit");
+          await simulation.dispatch({ type: "TICK" });
+
+          expect(received).toEqual(["rabbit:TICK"]);
+          expect(simulation.getAllAgentStates()).toEqual({});
+        });
+
+        it("should replay spawns and removals", async () => {
+          const received: string[] = [];
+          const fox = createAgent<number, LifeAction>("fox", (action, context) => {
+            if (action.type === "HUNT") {
+              context.removeAgent(action.prey);
+            }
+          });
+
+          const recorded = createSimulation<number, LifeAction>({
+            initialGlobalState: 0,
+            agents: [fox, createRabbit("rabbit", received)],
+            shouldExit: ({ actionCount }) => actionCount >= 2,
+            record: true,
+          });
+          await recorded.dispatch({ type: "BREED", parent: "rabbit" });
+          await recorded.dispatch({ type: "HUNT", prey: "rabbit" });
+
+          const replayed = createSimulation<number, LifeAction>({
+            initialGlobalState: 0,
+            agents: [fox, createRabbit("rabbit", received)],
+            shouldExit: ({ actionCount }) => actionCount >= 2,
+            replay: recorded.getEventLog(),
+          });
+          await replayed.replay();
+
+          expect(replayed.getAllAgentStates()).toEqual({
+            fox: undefined,
+            "rabbit-kit": { age: 0 },
+          });
+          expect(replayed.getGlobalState()).toBe(1);
+        });
+      });
+
+      describe("Lifecycle Hooks", () => {
+        it("should run agent and simulation hooks in order", async () => {
+          const calls: string[] = [];
+          const agent: Agent<number, TestAction> = {
+            id: "agent",
+            onStart: () => {
+              calls.push("agent:start");
+            },
+            onBeforeAction: (action) => {
+              calls.push(`agent:before:${action.type}`);
+            },
+            onAction: (action, context) => {
+              calls.push(`agent:action:${action.type}`);
+              if (action.type === "START") {
+                context.dispatch({ type: "DOUBLE" });
+              }
+            },
+            onAfterAction: (action) => {
+              calls.push(`agent:after:${action.type}`);
+            },
+            onExit: () => {
+              calls.push("agent:exit");
+            },
+          };
+
+          const simulation = createSimulation<number, TestAction>({
+            initialGlobalState: 0,
+            agents: [agent],
+            shouldExit: ({ lastAction }) => lastAction.type === "DOUBLE",
+            onStart: () => {
+              calls.push("sim:start");
+            },
+            onBeforeAction: (action) => {
+              calls.push(`sim:before:${action.type}`);
+            },
+            onAfterAction: (action) => {
+              calls.push(`sim:after:${action.type}`);
+            },
+            onExit: ({ actionCount }) => {
+              calls.push(`sim:exit:${actionCount}`);
+            },
+          });
+
+          await simulation.dispatch({ type: "START" });
+          await simulation.exit();
+
+          expect(calls).toEqual([
+            "sim:start",
+            "agent:start",
+            "sim:before:START",
+            "agent:before:START",
+            "agent:action:START",
+            "agent:after:START",
+            "sim:after:START",
+            "sim:before:DOUBLE",
+            "agent:before:DOUBLE",
+            "agent:action:DOUBLE",
+            "agent:after:DOUBLE",
+            "sim:after:DOUBLE",
+            "agent:exit",
+            "sim:exit:2",
+          ]);
+        });
+
+        it("should let onStart hooks initialise state and dispatch", async () => {
+          const agent = createAgent<number, TestAction, { memory: string[] }>(
+            "agent",
+            (action, context) => {
+              if (action.type === "INCREMENT") {
+                context.updateGlobalState((state) => state + action.amount);
+              }
+            }
+          );
+          agent.onStart = (context) => {
+            context.updateInternalState(() => ({ memory: ["ready"] }));
+          };
+
+          const simulation = createSimulation<number, TestAction>({
+            initialGlobalState: 0,
+            agents: [agent],
+            shouldExit: ({ actionCount }) => actionCount >= 1,
+            onStart: ({ dispatch }) => {
+              dispatch({ type: "INCREMENT", amount: 7 });
+            },
+          });
+
+          await simulation.run();
+
+          expect(simulation.getGlobalState()).toBe(7);
+          expect(simulation.getAgentInternalState("agent")).toEqual({
+            memory: ["ready"],
+          });
+        });
+
+        it("should start spawned agents before their first action", async () => {
+          const calls: string[] = [];
+          const spawner = createAgent<number, TestAction>(
+            "spawner",
+            (action, context) => {
+              if (action.type === "START") {
+                context.spawnAgent({
+                  id: "child",
+                  onStart: () => {
+                    calls.push("child:start");
+                  },
+                  onAction: (action) => {
+                    calls.push(`child:${action.type}`);
+                  },
+                });
+                context.dispatch({ type: "DOUBLE" });
+              }
+            }
+          );
+
+          const simulation = createSimulation<number, TestAction>({
+            initialGlobalState: 0,
+            agents: [spawner],
+            shouldExit: () => false,
+          });
+
+          await simulation.dispatch({ type: "START" });
+
+          expect(calls).toEqual(["child:start", "child:DOUBLE"]);
+        });
+
+        it("should call onError hooks when an agent throws", async () => {
+          const errors: string[] = [];
+          const agent = createAgent<number, TestAction>("faulty", () => {
+            throw new Error("LLM unavailable");
+          });
+          agent.onError = (error, action) => {
+            errors.push(`agent:${(error as Error).message}:${action?.type}`);
+          };
+
+          const simulation = createSimulation<number, TestAction>({
+            initialGlobalState: 0,
+            agents: [agent],
+            shouldExit: () => false,
+            onError: (error, { agentId }) => {
+              errors.push(`sim:${(error as Error).message}:${agentId}`);
+            },
+          });
+
+          await expect(simulation.dispatch({ type: "START" })).rejects.toThrow(
+            "LLM unavailable"
+          );
+          expect(errors).toEqual([
+            "agent:LLM unavailable:START",
+            "sim:LLM unavailable:faulty",
+          ]);
+        });
+
+        it("should end the run when an onStart hook fails under fail-fast", async () => {
+          const handled: string[] = [];
+          const agent = createAgent<number, TestAction>("agent", (action) => {
+            handled.push(action.type);
+          });
+          agent.onStart = () => {
+            throw new Error("memory unavailable");
+          };
+
+          const simulation = createSimulation<number, TestAction>({
+            initialGlobalState: 0,
+            agents: [agent],
+            shouldExit: () => false,
+          });
+
+          await expect(simulation.dispatch({ type: "START" })).rejects.toThrow(
+            "memory unavailable"
+          );
+          await simulation.dispatch({ type: "DOUBLE" });
+          const result = await simulation.exit();
+
+          expect(handled).toEqual([]);
+          expect(result.exitReason.type).toBe("error");
+          expect(result.errors).toMatchObject([
+            { agentId: "agent", action: undefined, message: "memory unavailable" },
+          ]);
+        });
+
+        it("should skip a failing onStart hook under the skip policy", async () => {
+          const handled: string[] = [];
+          const agent = createAgent<number, TestAction>("agent", (action) => {
+            handled.push(action.type);
+          });
+          agent.onStart = () => {
+            throw new Error("memory unavailable");
+          };
+
+          const simulation = createSimulation<number, TestAction>({
+            initialGlobalState: 0,
+            agents: [agent],
+            shouldExit: () => false,
+            errorPolicy: "skip",
+          });
+          await simulation.dispatch({ type: "START" });
+
+          expect(handled).toEqual(["START"]);
+          expect(simulation.getErrors()).toHaveLength(1);
+        });
+      });
+
+      describe("Error Policies", () => {
+        type ErrorAction = TestAction | { type: "AGENT_FAILED"; agentId: string };
+
+        const createFlakyAgent = (failures: number) => {
+          let calls = 0;
+          return createAgent<number, ErrorAction>("flaky", (action, context) => {
+            if (action.type === "INCREMENT") {
+              calls++;
+              if (calls <= failures) {
+                throw new Error(`Attempt ${calls} failed`);
+              }
+              context.updateGlobalState((state) => state + action.amount);
+            }
+          });
+        };
+
+        it("should end the run on fail-fast errors and allow later dispatches to be ignored", async () => {
+          let exitErrors: string[] = [];
+          const simulation = createSimulation<number, ErrorAction>({
+            initialGlobalState: 0,
+            agents: [createFlakyAgent(1)],
+            shouldExit: () => false,
+            onExit: ({ errors }) => {
+              exitErrors = errors.map((error) => error.message);
+            },
+          });
+
+          await expect(
+            simulation.dispatch({ type: "INCREMENT", amount: 1 })
+          ).rejects.toThrow("Attempt 1 failed");
+
+          expect(simulation.hasSimulationExited()).toBe(true);
+          expect(exitErrors).toEqual(["Attempt 1 failed"]);
+          await simulation.dispatch({ type: "INCREMENT", amount: 1 });
+          expect(simulation.getGlobalState()).toBe(0);
+        });
+
+        it("should skip failed agents and continue with the queue", async () => {
+          const other = createAgent<number, ErrorAction>("other", (action, context) => {
+            if (action.type === "START") {
+              context.dispatch({ type: "INCREMENT", amount: 2 });
+              context.dispatch({ type: "INCREMENT", amount: 3 });
+            }
+          });
+
+          const simulation = createSimulation<number, ErrorAction>({
+            initialGlobalState: 0,
+            agents: [createFlakyAgent(1), other],
+            shouldExit: () => false,
+            errorPolicy: "skip",
+          });
+
+          await simulation.dispatch({ type: "START" });
+
+          expect(simulation.getGlobalState()).toBe(3);
+          expect(simulation.getActionCount()).toBe(3);
+          expect(simulation.getErrors()).toMatchObject([
+            {
+              agentId: "flaky",
+              action: { type: "INCREMENT", amount: 2 },
+              message: "Attempt 1 failed",
+              attempts: 1,
+            },
+          ]);
+        });
+
+        it("should retry with backoff until the handler succeeds", async () => {
+          const simulation = createSimulation<number, ErrorAction>({
+            initialGlobalState: 0,
+            agents: [createFlakyAgent(2)],
+            shouldExit: () => false,
+            errorPolicy: { retry: 2, backoffMs: 1 },
+          });
+
+          await simulation.dispatch({ type: "INCREMENT", amount: 5 });
+
+          expect(simulation.getGlobalState()).toBe(5);
+          expect(simulation.getErrors()).toEqual([]);
+        });
+
+        it("should fall back once retries are exhausted", async () => {
+          const simulation = createSimulation<number, ErrorAction>({
+            initialGlobalState: 0,
+            agents: [createFlakyAgent(5)],
+            shouldExit: () => false,
+            errorPolicy: { retry: 1, fallback: "skip" },
+          });
+
+          await simulation.dispatch({ type: "INCREMENT", amount: 5 });
+
+          expect(simulation.hasSimulationExited()).toBe(false);
+          expect(simulation.getErrors()).toMatchObject([
+            { message: "Attempt 2 failed", attempts: 2 },
+          ]);
+        });
+
+        it("should dispatch an error action with a per-agent policy", async () => {
+          const failures: string[] = [];
+          const flaky = createFlakyAgent(1);
+          flaky.errorPolicy = {
+            dispatch: (error, { agentId }) => ({ type: "AGENT_FAILED", agentId }),
+          };
+          const monitor = createAgent<number, ErrorAction>("monitor", (action) => {
+            if (action.type === "AGENT_FAILED") {
+              failures.push(action.agentId);
+            }
+          });
+
+          const simulation = createSimulation<number, ErrorAction>({
+            initialGlobalState: 0,
+            agents: [flaky, monitor],
+            shouldExit: () => false,
+            errorPolicy: "fail-fast",
+          });
+
+          await simulation.dispatch({ type: "INCREMENT", amount: 1 });
+
+          expect(failures).toEqual(["flaky"]);
+          expect(simulation.hasSimulationExited()).toBe(false);
+        });
+
+        it("should end the run when a simulation hook fails outside a dispatch", async () => {
+          const ticker = createAgent<number, ErrorAction>("ticker", (action, context) => {
+            if (action.type === "START") {
+              setTimeout(() => context.dispatch({ type: "DOUBLE" }), 0);
+            }
+          });
+
+          const simulation = createSimulation<number, ErrorAction>({
+            initialGlobalState: 0,
+            agents: [ticker],
+            shouldExit: () => false,
+            onAfterAction: (action) => {
+              if (action.type === "DOUBLE") {
+                throw new Error("after hook failed");
+              }
+            },
+          });
+          await simulation.dispatch({ type: "START" });
+          const result = await simulation.exit();
+
+          expect(result.exitReason).toMatchObject({
+            type: "error",
+            error: { agentId: null, action: { type: "DOUBLE" }, message: "after hook failed" },
+          });
+        });
+
+        it("should end the run with the hook's error when onError fails", async () => {
+          const faulty = createFlakyAgent(1);
+          faulty.onError = () => {
+            throw new Error("alerting failed");
+          };
+
+          const simulation = createSimulation<number, ErrorAction>({
+            initialGlobalState: 0,
+            agents: [faulty],
+            shouldExit: () => false,
+            errorPolicy: "skip",
+          });
+
+          await expect(
+            simulation.dispatch({ type: "INCREMENT", amount: 1 })
+          ).rejects.toThrow("alerting failed");
+          const { exitReason, errors } = await simulation.exit();
+
+          expect(exitReason).toMatchObject({
+            type: "error",
+            error: { agentId: "flaky", message: "alerting failed" },
+          });
+          expect(errors.map(({ message }) => message)).toEqual([
+            "Attempt 1 failed",
+            "alerting failed",
+          ]);
+        });
+
+        it("should ignore state updates from handlers still running after exit", async () => {
+          const slow = createAgent<number, ErrorAction>("slow", async (_action, context) => {
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            context.updateGlobalState((state) => state + 1);
+          });
+
+          const simulation = createSimulation<number, ErrorAction>({
+            initialGlobalState: 0,
+            agents: [createFlakyAgent(1), slow],
+            shouldExit: () => false,
+          });
+
+          await expect(
+            simulation.dispatch({ type: "INCREMENT", amount: 1 })
+          ).rejects.toThrow("Attempt 1 failed");
+          const result = await simulation.exit();
+          await new Promise((resolve) => setTimeout(resolve, 20));
+
+          expect(result.globalState).toBe(0);
+          expect(simulation.getGlobalState()).toBe(0);
+        });
+      });
+
+      describe("Execution Modes", () => {
+        const createSlowAppender = (
+          id: string,
+          delay: number,
+          priority?: number
+        ) =>
+          createAgent<string[], TestAction>(
+            id,
+            async (action, context) => {
+              const seen = context.globalState.length;
+              await new Promise((resolve) => setTimeout(resolve, delay));
+              context.updateGlobalState((state) => [...state, `${id}:${seen}`]);
+            },
+            undefined,
+            { priority }
+          );
+
+        it("should run agents concurrently in parallel mode", async () => {
+          const simulation = createSimulation<string[], TestAction>({
+            initialGlobalState: [],
+            agents: [createSlowAppender("a", 10), createSlowAppender("b", 1)],
+            shouldExit: () => false,
+          });
+
+          await simulation.dispatch({ type: "START" });
+
+          expect(simulation.getGlobalState()).toEqual(["b:0", "a:0"]);
+        });
+
+        it("should run agents one at a time in sequential mode", async () => {
+          const simulation = createSimulation<string[], TestAction>({
+            initialGlobalState: [],
+            agents: [createSlowAppender("a", 10), createSlowAppender("b", 1)],
+            shouldExit: () => false,
+            executionMode: "sequential",
+          });
+
+          await simulation.dispatch({ type: "START" });
+
+          expect(simulation.getGlobalState()).toEqual(["a:0", "b:1"]);
+        });
+
+        it("should run higher priority agents first in priority mode", async () => {
+          const simulation = createSimulation<string[], TestAction>({
+            initialGlobalState: [],
+            agents: [
+              createSlowAppender("low", 1, -1),
+              createSlowAppender("default", 1),
+              createSlowAppender("high", 1, 10),
+            ],
+            shouldExit: () => false,
+            executionMode: "priority",
+          });
+
+          await simulation.dispatch({ type: "START" });
+
+          expect(simulation.getGlobalState()).toEqual([
+            "high:0",
+            "default:1",
+            "low:2",
+          ]);
+        });
+
+        it("should shuffle agents reproducibly in random mode", async () => {
+          const runWithSeed = async (seed: number) => {
+            const simulation = createSimulation<string[], TestAction>({
+              initialGlobalState: [],
+              agents: ["a", "b", "c", "d", "e"].map((id) =>
+                createSlowAppender(id, 0)
+              ),
+              shouldExit: () => false,
+              executionMode: "random",
+              seed,
+            });
+            await simulation.dispatch({ type: "START" });
+            await simulation.dispatch({ type: "START" });
+            return simulation.getGlobalState();
+          };
+
+          const first = await runWithSeed(42);
+          expect(await runWithSeed(42)).toEqual(first);
+          expect(first.slice(0, 5).map((entry) => entry[0]).sort()).toEqual([
+            "a",
+            "b",
+            "c",
+            "d",
+            "e",
+          ]);
+        });
+      });
+
+      describe("Live State and Conflict Detection", () => {
+        const createAsyncAdder = (id: string, delay: number, readLive: boolean) =>
+          createAgent<number, TestAction>(id, async (action, context) => {
+            await new Promise((resolve) => setTimeout(resolve, delay));
+            const base = readLive ? context.getGlobalState() : context.globalState;
+            context.updateGlobalState(() => base + 1);
+          });
+
+        it("should read current state through live getters", async () => {
+          const reads: number[] = [];
+          const agent = createAgent<number, TestAction, { count: number }>(
+            "reader",
+            async (action, context) => {
+              context.updateGlobalState((state) => state + 1);
+              context.updateInternalState((state) => ({ count: state.count + 1 }));
+              await Promise.resolve();
+              reads.push(
+                context.globalState,
+                context.getGlobalState(),
+                context.internalState.count,
+                context.getInternalState().count
+              );
+            },
+            { count: 0 }
+          );
+
+          const simulation = createSimulation<number, TestAction>({
+            initialGlobalState: 10,
+            agents: [agent],
+            shouldExit: () => false,
+          });
+
+          await simulation.dispatch({ type: "START" });
+
+          expect(reads).toEqual([10, 11, 0, 1]);
+        });
+
+        it("should report updates based on stale reads", async () => {
+          const conflicts: any[] = [];
+          const simulation = createSimulation<number, TestAction>({
+            initialGlobalState: 0,
+            agents: [createAsyncAdder("fast", 1, false), createAsyncAdder("slow", 5, false)],
+            shouldExit: () => false,
+            detectConflicts: (conflict) => conflicts.push(conflict),
+          });
+
+          await simulation.dispatch({ type: "START" });
+
+          // The slow agent's update overwrote the fast agent's change
+          expect(simulation.getGlobalState()).toBe(1);
+          expect(conflicts).toEqual([
+            {
+              type: "global",
+              agentId: "slow",
+              changedBy: "fast",
+              action: { type: "START" },
+            },
+          ]);
+        });
+
+        it("should not report conflicts after reading live state", async () => {
+          const conflicts: any[] = [];
+          const simulation = createSimulation<number, TestAction>({
+            initialGlobalState: 0,
+            agents: [createAsyncAdder("fast", 1, true), createAsyncAdder("slow", 5, true)],
+            shouldExit: () => false,
+            detectConflicts: (conflict) => conflicts.push(conflict),
+          });
+
+          await simulation.dispatch({ type: "START" });
+
+          expect(simulation.getGlobalState()).toBe(2);
+          expect(conflicts).toEqual([]);
+        });
+
+        it("should not report conflicts between an agent's handler and its hooks", async () => {
+          const conflicts: any[] = [];
+          const agent = createAgent<number, TestAction>("a", (_action, context) => {
+            context.updateGlobalState((state) => state + 1);
+          });
+          agent.onAfterAction = (_action, context) => {
+            context.updateGlobalState((state) => state * 10);
+          };
+
+          const simulation = createSimulation<number, TestAction>({
+            initialGlobalState: 0,
+            agents: [agent],
+            shouldExit: () => false,
+            detectConflicts: (conflict) => conflicts.push(conflict),
+          });
+
+          await simulation.dispatch({ type: "START" });
+
+          expect(simulation.getGlobalState()).toBe(10);
+          expect(conflicts).toEqual([]);
+        });
+      });
+
+      describe("Clock and Scheduling", () => {
+        type ClockAction =
+          | { type: "START" }
+          | { type: "HARVEST" }
+          | { type: "STORM" }
+          | { type: "REPORT"; tick: number };
+
+        it("should dispatch scheduled and recurring actions as the clock advances", async () => {
+          const log: string[] = [];
+          const farmer = createAgent<number, ClockAction>("farmer", (action, context) => {
+            log.push(`${context.tick}:${action.type}`);
+            if (action.type === "START") {
+              context.schedule({ type: "HARVEST" }, { every: 5 });
+              context.schedule({ type: "STORM" }, { at: 12 });
+            }
+            if (action.type === "HARVEST") {
+              context.updateGlobalState((crops) => crops + 1);
+            }
+          });
+
+          const simulation = createSimulation<number, ClockAction>({
+            initialGlobalState: 0,
+            agents: [farmer],
+            shouldExit: ({ tick }) => tick >= 20,
+          });
+
+          await simulation.dispatch({ type: "START" });
+
+          expect(log).toEqual([
+            "0:START",
+            "5:HARVEST",
+            "10:HARVEST",
+            "12:STORM",
+            "15:HARVEST",
+            "20:HARVEST",
+          ]);
+          expect(simulation.getGlobalState()).toBe(4);
+          expect(simulation.getTick()).toBe(20);
+          expect(simulation.hasSimulationExited()).toBe(true);
+        });
+
+        it("should process cascading actions before advancing the clock", async () => {
+          const log: string[] = [];
+          const agent = createAgent<number, ClockAction>("agent", (action, context) => {
+            log.push(`${context.tick}:${action.type}`);
+            if (action.type === "HARVEST") {
+              context.dispatch({ type: "REPORT", tick: context.tick });
+            }
+          });
+
+          const simulation = createSimulation<number, ClockAction>({
+            initialGlobalState: 0,
+            agents: [agent],
+            shouldExit: ({ actionCount }) => actionCount >= 4,
+          });
+
+          simulation.schedule({ type: "HARVEST" }, { at: 1, every: 2 });
+          await simulation.run();
+
+          expect(log).toEqual(["1:HARVEST", "1:REPORT", "3:HARVEST", "3:REPORT"]);
+        });
+
+        it("should cancel scheduled actions", async () => {
+          const log: string[] = [];
+          const agent = createAgent<number, ClockAction>("agent", (action, context) => {
+            log.push(`${context.tick}:${action.type}`);
+          });
+
+          const simulation = createSimulation<number, ClockAction>({
+            initialGlobalState: 0,
+            agents: [agent],
+            shouldExit: () => false,
+          });
+
+          const stormId = simulation.schedule({ type: "STORM" }, { at: 3 });
+          simulation.schedule({ type: "HARVEST" }, { at: 5 });
+          simulation.unschedule(stormId);
+          await simulation.run();
+
+          expect(log).toEqual(["5:HARVEST"]);
+          expect(() => simulation.schedule({ type: "STORM" }, {})).toThrow(
+            "Scheduled actions need an `at` tick or an `every` interval"
+          );
+        });
+
+        it("should carry the clock and schedule through snapshots", async () => {
+          let snapshot: any = null;
+          const simulation = createSimulation<number, ClockAction>({
+            initialGlobalState: 0,
+            agents: [],
+            shouldExit: ({ tick }) => {
+              snapshot = simulation.snapshot();
+              return tick >= 4;
+            },
+          });
+          simulation.schedule({ type: "HARVEST" }, { every: 2 });
+          await simulation.run();
+
+          const resumed = createSimulation<number, ClockAction>({
+            initialGlobalState: 0,
+            agents: [],
+            shouldExit: ({ tick }) => tick >= 8,
+            fromSnapshot: snapshot,
+          });
+          await resumed.run();
+
+          expect(snapshot.tick).toBe(4);
+          expect(resumed.getTick()).toBe(8);
+          expect(resumed.getActionCount()).toBe(4);
+        });
+      });
+
+      describe("Priorities and Delays", () => {
+        type AlarmAction =
+          | { type: "START" }
+          | { type: "GRAZE"; n: number }
+          | { type: "PREDATOR" }
+          | { type: "FLEE" };
+
+        it("should process higher priority actions first", async () => {
+          const log: string[] = [];
+          const herd = createAgent<number, AlarmAction>("herd", (action, context) => {
+            log.push(action.type === "GRAZE" ? `GRAZE ${action.n}` : action.type);
+            if (action.type === "START") {
+              context.dispatch({ type: "GRAZE", n: 1 });
+              context.dispatch({ type: "GRAZE", n: 2 });
+              context.dispatch({ type: "PREDATOR" }, { priority: 10 });
+            }
+            if (action.type === "PREDATOR") {
+              context.dispatch({ type: "FLEE" }, { priority: 5 });
+            }
+          });
+
+          const simulation = createSimulation<number, AlarmAction>({
+            initialGlobalState: 0,
+            agents: [herd],
+            shouldExit: () => false,
+          });
+
+          await simulation.dispatch({ type: "START" });
+
+          expect(log).toEqual(["START", "PREDATOR", "FLEE", "GRAZE 1", "GRAZE 2"]);
+        });
+
+        it("should defer delayed actions by a number of ticks", async () => {
+          const log: string[] = [];
+          const herd = createAgent<number, AlarmAction>("herd", (action, context) => {
+            log.push(`${context.tick}:${action.type}`);
+            if (action.type === "PREDATOR") {
+              context.dispatch({ type: "FLEE" }, { delay: 2 });
+              context.dispatch({ type: "GRAZE", n: 1 });
+            }
+          });
+
+          const simulation = createSimulation<number, AlarmAction>({
+            initialGlobalState: 0,
+            agents: [herd],
+            shouldExit: () => false,
+          });
+
+          await simulation.dispatch({ type: "PREDATOR" }, { delay: 3 });
+
+          expect(log).toEqual(["3:PREDATOR", "3:GRAZE", "5:FLEE"]);
+          await expect(
+            simulation.dispatch({ type: "FLEE" }, { delay: -1 })
+          ).rejects.toThrow("`delay` must be a non-negative number of ticks");
+        });
+
+        it("should apply priorities to scheduled actions due on the same tick", async () => {
+          const log: string[] = [];
+          const herd = createAgent<number, AlarmAction>("herd", (action) => {
+            log.push(action.type);
+          });
+
+          const simulation = createSimulation<number, AlarmAction>({
+            initialGlobalState: 0,
+            agents: [herd],
+            shouldExit: () => false,
+          });
+
+          simulation.schedule({ type: "GRAZE", n: 1 }, { at: 4 });
+          simulation.schedule({ type: "PREDATOR" }, { at: 4, priority: 1 });
+          await simulation.run();
+
+          expect(log).toEqual(["PREDATOR", "GRAZE"]);
+        });
+      });
+
+      describe("Middleware", () => {
+        type TradeAction =
+          | { type: "TRADE"; amount: number }
+          | { type: "NOTE"; text: string };
+
+        it("should pass actions through middleware in order", async () => {
+          const trace: string[] = [];
+          const received: TradeAction[] = [];
+          const trader = createAgent<number, TradeAction>("trader", (action) => {
+            received.push(action);
+          });
+
+          const simulation = createSimulation<number, TradeAction>({
+            initialGlobalState: 0,
+            agents: [trader],
+            shouldExit: () => false,
+            middleware: [
+              (action, next) => {
+                trace.push(`first:${action.type}`);
+                next(action);
+              },
+              (action, next) => {
+                trace.push(`second:${action.type}`);
+                next(
+                  action.type === "TRADE"
+                    ? { ...action, amount: Math.min(action.amount, 100) }
+                    : action
+                );
+              },
+            ],
+          });
+
+          await simulation.dispatch({ type: "TRADE", amount: 500 });
+
+          expect(trace).toEqual(["first:TRADE", "second:TRADE"]);
+          expect(received).toEqual([{ type: "TRADE", amount: 100 }]);
+        });
+
+        it("should let middleware drop and duplicate actions", async () => {
+          const received: string[] = [];
+          const trader = createAgent<number, TradeAction>("trader", (action, context) => {
+            received.push(action.type);
+            if (action.type === "TRADE") {
+              context.dispatch({ type: "NOTE", text: "traded" });
+            }
+          });
+
+          const simulation = createSimulation<number, TradeAction>({
+            initialGlobalState: 0,
+            agents: [trader],
+            shouldExit: () => false,
+            middleware: [
+              (action, next) => {
+                if (action.type === "NOTE") {
+                  return;
+                }
+                next(action);
+                next(action);
+              },
+            ],
+          });
+
+          await simulation.dispatch({ type: "TRADE", amount: 1 });
+
+          expect(received).toEqual(["TRADE", "TRADE"]);
+          expect(simulation.getActionCount()).toBe(2);
+        });
+
+        it("should apply middleware to scheduled actions when they fall due", async () => {
+          const seen: number[] = [];
+          const simulation = createSimulation<number, TradeAction>({
+            initialGlobalState: 0,
+            agents: [],
+            shouldExit: ({ tick }) => tick >= 3,
+            middleware: [
+              (action, next, sim) => {
+                seen.push(sim.getTick());
+                next(action);
+              },
+            ],
+          });
+
+          simulation.schedule({ type: "NOTE", text: "tick" }, { every: 1 });
+          await simulation.dispatch({ type: "NOTE", text: "delayed" }, { delay: 2 });
+
+          expect(seen).toEqual([1, 2, 2, 3]);
+        });
+
+        it("should process actions that middleware passes on later", async () => {
+          const received: TradeAction[] = [];
+          const trader = createAgent<number, TradeAction>("trader", (action) => {
+            received.push(action);
+          });
+
+          const simulation = createSimulation<number, TradeAction>({
+            initialGlobalState: 0,
+            agents: [trader],
+            shouldExit: () => false,
+            middleware: [(action, next) => setTimeout(() => next(action), 5)],
+          });
+
+          await simulation.dispatch({ type: "TRADE", amount: 10 });
+          expect(received).toEqual([]);
+
+          await new Promise((resolve) => setTimeout(resolve, 20));
+          expect(received).toEqual([{ type: "TRADE", amount: 10 }]);
+          expect(simulation.getActionCount()).toBe(1);
+        });
+
+        it("should count ticks whose actions are all dropped toward maxActions", async () => {
+          let timerFired = false;
+          setTimeout(() => {
+            timerFired = true;
+          }, 0);
+          const simulation = createSimulation<number, TradeAction>({
+            initialGlobalState: 0,
+            agents: [],
+            shouldExit: () => false,
+            maxActions: 5,
+            middleware: [() => {}],
+          });
+
+          simulation.schedule({ type: "NOTE", text: "tick" }, { every: 1 });
+          await simulation.run();
+
+          const result = await simulation.exit();
+          expect(result.exitReason).toEqual({ type: "maxActions" });
+          expect(result.actionCount).toBe(0);
+          expect(result.tick).toBe(5);
+          expect(timerFired).toBe(true);
+        });
+      });
+
+      describe("Schema Validation", () => {
+        const tradeSchema = z.discriminatedUnion("type", [
+          z.object({ type: z.literal("START") }),
+          z.object({
+            type: z.literal("TRADE"),
+            amount: z.number().positive(),
+            reasoning: z.string(),
+          }),
+        ]);
+        type TradeAction = z.infer<typeof tradeSchema>;
+        const marketSchema = z.object({ price: z.number().nonnegative() });
+        type Market = z.infer<typeof marketSchema>;
+
+        it("should reject actions that don't match the action schema", async () => {
+          const simulation = createSimulation<Market, TradeAction>({
+            initialGlobalState: { price: 10 },
+            agents: [],
+            shouldExit: () => false,
+            actionSchema: tradeSchema,
+          });
+
+          const bad = { type: "TRADE", amount: 5, reasoning: 42 } as any;
+          await expect(simulation.dispatch(bad)).rejects.toThrow(
+            "Invalid action: reasoning: Expected string, received number"
+          );
+          expect(() => simulation.schedule(bad, { at: 1 })).toThrow(ValidationError);
+          expect(simulation.getActionCount()).toBe(0);
+        });
+
+        it("should validate actions after middleware has rewritten them", async () => {
+          const received: TradeAction[] = [];
+          const simulation = createSimulation<Market, TradeAction>({
+            initialGlobalState: { price: 10 },
+            agents: [
+              createAgent<Market, TradeAction>("trader", (action) => {
+                received.push(action);
+              }),
+            ],
+            shouldExit: () => false,
+            actionSchema: tradeSchema,
+            middleware: [(_action, next) => next({ type: "BAD" } as any)],
+          });
+
+          await expect(simulation.dispatch({ type: "START" })).rejects.toThrow(
+            ValidationError
+          );
+          expect(received).toEqual([]);
+        });
+
+        it("should report invalid actions dispatched by agents as agent errors", async () => {
+          const llmTrader = createAgent<Market, TradeAction>("llm-trader", (action, context) => {
+            if (action.type === "START") {
+              context.dispatch({ type: "TRADE", amount: -1, reasoning: "sell" });
+            }
+          });
+
+          const simulation = createSimulation<Market, TradeAction>({
+            initialGlobalState: { price: 10 },
+            agents: [llmTrader],
+            shouldExit: () => false,
+            actionSchema: tradeSchema,
+            errorPolicy: "skip",
+          });
+
+          await simulation.dispatch({ type: "START" });
+
+          const [failure] = simulation.getErrors();
+          expect(failure?.agentId).toBe("llm-trader");
+          expect(failure?.error).toBeInstanceOf(ValidationError);
+          expect(failure?.message).toBe(
+            'Invalid action from agent "llm-trader": amount: Number must be greater than 0'
+          );
+          expect(simulation.getActionCount()).toBe(1);
+        });
+
+        it("should validate global state updates", async () => {
+          const crasher = createAgent<Market, TradeAction>("crasher", (_action, context) => {
+            context.updateGlobalState((market) => ({ price: market.price - 20 }));
+          });
+
+          const simulation = createSimulation<Market, TradeAction>({
+            initialGlobalState: { price: 10 },
+            agents: [crasher],
+            shouldExit: () => false,
+            globalStateSchema: marketSchema,
+          });
+
+          await expect(simulation.dispatch({ type: "START" })).rejects.toThrow(
+            'Invalid global state from agent "crasher": price: Number must be greater than or equal to 0'
+          );
+          expect(simulation.getGlobalState()).toEqual({ price: 10 });
+          expect(() =>
+            createSimulation<Market, TradeAction>({
+              initialGlobalState: { price: -1 },
+              agents: [],
+              shouldExit: () => false,
+              globalStateSchema: marketSchema,
+            })
+          ).toThrow("Invalid global state: price");
+        });
+      });
+
+      describe("Event Stream", () => {
+        type CounterAction = { type: "INCREMENT" } | { type: "FAIL" };
+
+        const createCounter = () => {
+          const counter = createAgent<number, CounterAction>("counter", (action, context) => {
+            if (action.type === "FAIL") {
+              throw new Error("Counter broke");
+            }
+            context.updateGlobalState((count) => count + 1);
+            if (context.getGlobalState() < 3) {
+              context.dispatch({ type: "INCREMENT" });
+            }
+          });
+
+          return createSimulation<number, CounterAction>({
+            initialGlobalState: 0,
+            agents: [counter],
+            shouldExit: ({ globalState }) => globalState >= 3,
+            errorPolicy: "skip",
+          });
+        };
+
+        it("should notify listeners of actions, state changes and exit", async () => {
+          const simulation = createCounter();
+          const actionCounts: number[] = [];
+          const states: number[] = [];
+          const exitStates: number[] = [];
+
+          simulation.on("action", ({ actionCount }) => actionCounts.push(actionCount));
+          simulation.on("stateChange", ({ change }) => {
+            if (change.type === "global") {
+              states.push(change.state);
+            }
+          });
+          simulation.on("exit", ({ globalState }) => exitStates.push(globalState));
+
+          await simulation.dispatch({ type: "INCREMENT" });
+
+          expect(actionCounts).toEqual([1, 2, 3]);
+          expect(states).toEqual([1, 2, 3]);
+          expect(exitStates).toEqual([3]);
+        });
+
+        it("should notify listeners of agent errors and support unsubscribing", async () => {
+          const simulation = createCounter();
+          const errors: string[] = [];
+          const actions: string[] = [];
+
+          simulation.on("error", ({ agentId, message }) => errors.push(`${agentId}: ${message}`));
+          const unsubscribe = simulation.on("action", ({ action }) => actions.push(action.type));
+
+          await simulation.dispatch({ type: "FAIL" });
+          unsubscribe();
+          await simulation.dispatch({ type: "INCREMENT" });
+
+          expect(errors).toEqual(["counter: Counter broke"]);
+          expect(actions).toEqual(["FAIL"]);
+        });
+
+        it("should yield events through an async iterator until exit", async () => {
+          const simulation = createCounter();
+          const events = simulation.events();
+
+          const collected: string[] = [];
+          const reading = (async () => {
+            for await (const event of events) {
+              collected.push(
+                event.type === "action" ? `action:${event.action.type}` : event.type
+              );
+            }
+          })();
+
+          await simulation.dispatch({ type: "INCREMENT" });
+          await reading;
+
+          expect(collected).toEqual([
+            "stateChange",
+            "action:INCREMENT",
+            "stateChange",
+            "action:INCREMENT",
+            "stateChange",
+            "action:INCREMENT",
+            "exit",
+          ]);
+        });
+      });
+
+      describe("Pause, Step and Abort", () => {
+        type CounterAction = { type: "INCREMENT" } | { type: "THINK" };
+
+        const createCounter = (limit = 5) => {
+          const counter = createAgent<number, CounterAction>("counter", (action, context) => {
+            context.updateGlobalState((count) => count + 1);
+            context.dispatch({ type: "INCREMENT" });
+          });
+
+          return createSimulation<number, CounterAction>({
+            initialGlobalState: 0,
+            agents: [counter],
+            shouldExit: ({ globalState }) => globalState >= limit,
+          });
+        };
+
+        it("should pause after the current action and resume later", async () => {
+          const simulation = createCounter();
+          simulation.on("action", ({ actionCount }) => {
+            if (actionCount === 2) {
+              simulation.pause();
+            }
+          });
+
+          await simulation.dispatch({ type: "INCREMENT" });
+          expect(simulation.getGlobalState()).toBe(2);
+          expect(simulation.hasSimulationExited()).toBe(false);
+
+          await simulation.dispatch({ type: "INCREMENT" });
+          expect(simulation.getGlobalState()).toBe(2);
+
+          await simulation.resume();
+          expect(simulation.getGlobalState()).toBe(5);
+          expect(simulation.hasSimulationExited()).toBe(true);
+        });
+
+        it("should process one action per step", async () => {
+          const simulation = createCounter(3);
+          simulation.pause();
+          await simulation.dispatch({ type: "INCREMENT" });
+          expect(simulation.getActionCount()).toBe(0);
+
+          expect(await simulation.step()).toBe(true);
+          expect(simulation.getGlobalState()).toBe(1);
+          expect(await simulation.step()).toBe(true);
+          expect(simulation.getGlobalState()).toBe(2);
+          expect(await simulation.step()).toBe(true);
+          expect(simulation.hasSimulationExited()).toBe(true);
+          expect(await simulation.step()).toBe(false);
+        });
+
+        it("should abort the run and signal in-flight agents", async () => {
+          let signal: AbortSignal | undefined;
+          let exited = false;
+          const thinker = createAgent<number, CounterAction>("thinker", (_action, context) => {
+            signal = context.signal;
+            return new Promise<void>((_resolve, reject) => {
+              context.signal.addEventListener("abort", () =>
+                reject(new Error("LLM call cancelled"))
+              );
+            });
+          });
+
+          const simulation = createSimulation<number, CounterAction>({
+            initialGlobalState: 0,
+            agents: [thinker],
+            shouldExit: () => false,
+            onExit: () => {
+              exited = true;
+            },
+          });
+
+          const running = simulation.dispatch({ type: "THINK" });
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          await simulation.abort("user stopped the run");
+          await running;
+          await simulation.exit();
+
+          expect(signal?.aborted).toBe(true);
+          expect(signal?.reason).toBe("user stopped the run");
+          expect(exited).toBe(true);
+          expect(simulation.hasSimulationExited()).toBe(true);
+          expect(simulation.getErrors()).toEqual([]);
+        });
+
+        it("should not complete an action that was in flight when aborted", async () => {
+          const hooks: string[] = [];
+          const slow = createAgent<number, CounterAction>("slow", async () => {
+            await new Promise((resolve) => setTimeout(resolve, 10));
+          });
+
+          const simulation = createSimulation<number, CounterAction>({
+            initialGlobalState: 0,
+            agents: [slow],
+            shouldExit: () => {
+              hooks.push("shouldExit");
+              return false;
+            },
+            onAfterAction: () => {
+              hooks.push("onAfterAction");
+            },
+          });
+          simulation.on("action", () => hooks.push("action"));
+
+          const running = simulation.dispatch({ type: "THINK" });
+          await simulation.abort();
+          await running;
+          const result = await simulation.exit();
+
+          expect(hooks).toEqual([]);
+          expect(result.actionCount).toBe(0);
+          expect(simulation.getActionCount()).toBe(0);
+        });
+
+        it("should not deliver an action when aborted during onBeforeAction", async () => {
+          const received: string[] = [];
+          const setter = createAgent<number, CounterAction>("setter", (action, context) => {
+            received.push(action.type);
+            context.updateGlobalState(() => 100);
+          });
+
+          const simulation = createSimulation<number, CounterAction>({
+            initialGlobalState: 0,
+            agents: [setter],
+            shouldExit: () => false,
+            onBeforeAction: () => new Promise((resolve) => setTimeout(resolve, 20)),
+          });
+
+          const running = simulation.dispatch({ type: "THINK" });
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          await simulation.abort();
+          await running;
+          const result = await simulation.exit();
+
+          expect(received).toEqual([]);
+          expect(result.globalState).toBe(0);
+          expect(simulation.getGlobalState()).toBe(0);
+        });
+      });
+
+      describe("Run Results", () => {
+        type MarketAction = { type: "TRADE"; amount: number } | { type: "CRASH" };
+
+        const createTrader = (id: string) =>
+          createAgent<number, MarketAction, { trades: number }>(
+            id,
+            (action, context) => {
+              if (action.type === "CRASH") {
+                throw new Error("Market closed");
+              }
+              context.updateGlobalState((volume) => volume + action.amount);
+              context.updateInternalState((state) => ({ trades: state.trades + 1 }));
+            },
+            { trades: 0 }
+          );
+
+        it("should resolve exit() with the final states, counts and per-agent stats", async () => {
+          const simulation = createSimulation<number, MarketAction>({
+            initialGlobalState: 0,
+            agents: [createTrader("alice"), createTrader("bob")],
+            shouldExit: ({ globalState }) => globalState >= 20 && "volume target",
+          });
+
+          simulation.dispatch({ type: "TRADE", amount: 5 });
+          simulation.dispatch({ type: "TRADE", amount: 5 });
+          const result = await simulation.exit();
+
+          expect(result.globalState).toBe(20);
+          expect(result.agentStates).toEqual({ alice: { trades: 2 }, bob: { trades: 2 } });
+          expect(result.actionCount).toBe(2);
+          expect(result.tick).toBe(0);
+          expect(result.durationMs).toBeGreaterThanOrEqual(0);
+          expect(result.exitReason).toEqual({ type: "shouldExit", condition: "volume target" });
+          expect(result.agentStats.alice).toMatchObject({
+            actionsHandled: 2,
+            errors: 0,
+            stateChanges: 4,
+          });
+          expect(result.errors).toEqual([]);
+        });
+
+        it("should report fail-fast errors and aborts as exit reasons", async () => {
+          const failing = createSimulation<number, MarketAction>({
+            initialGlobalState: 0,
+            agents: [createTrader("alice")],
+            shouldExit: () => false,
+          });
+          await expect(failing.dispatch({ type: "CRASH" })).rejects.toThrow("Market closed");
+          const failed = await failing.exit();
+
+          expect(failed.exitReason.type).toBe("error");
+          expect(failed.exitReason.type === "error" && failed.exitReason.error.agentId).toBe(
+            "alice"
+          );
+          expect(failed.agentStats.alice).toMatchObject({ actionsHandled: 1, errors: 1 });
+
+          const aborted = createSimulation<number, MarketAction>({
+            initialGlobalState: 0,
+            agents: [createTrader("alice")],
+            shouldExit: () => false,
+          });
+          await aborted.dispatch({ type: "TRADE", amount: 1 });
+          await aborted.abort("enough");
+
+          expect((await aborted.exit()).exitReason).toEqual({
+            type: "aborted",
+            reason: "enough",
+          });
+        });
+      });
+
+      describe("Safety Limits", () => {
+        type LoopAction = { type: "PING" } | { type: "ASK" };
+
+        it("should stop a run that never satisfies shouldExit at maxActions", async () => {
+          const pinger = createAgent<number, LoopAction>("pinger", (_action, context) => {
+            context.dispatch({ type: "PING" });
+          });
+
+          const simulation = createSimulation<number, LoopAction>({
+            initialGlobalState: 0,
+            agents: [pinger],
+            shouldExit: () => false,
+            maxActions: 25,
+          });
+
+          simulation.dispatch({ type: "PING" });
+          const result = await simulation.exit();
+
+          expect(result.actionCount).toBe(25);
+          expect(result.exitReason).toEqual({ type: "maxActions" });
+        });
+
+        it("should stop a run after maxDurationMs", async () => {
+          const slow = createAgent<number, LoopAction>("slow", async (_action, context) => {
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            context.dispatch({ type: "PING" });
+          });
+
+          const simulation = createSimulation<number, LoopAction>({
+            initialGlobalState: 0,
+            agents: [slow],
+            shouldExit: () => false,
+            maxDurationMs: 20,
+          });
+
+          simulation.dispatch({ type: "PING" });
+          const result = await simulation.exit();
+
+          expect(result.exitReason).toEqual({ type: "maxDuration" });
+          expect(result.durationMs).toBeGreaterThanOrEqual(20);
+        });
+
+        it("should stop a run at maxDurationMs while a handler hangs", async () => {
+          let signal: AbortSignal | undefined;
+          const hung = createAgent<number, LoopAction>("hung", (_action, context) => {
+            signal = context.signal;
+            return new Promise<void>(() => {});
+          });
+
+          const simulation = createSimulation<number, LoopAction>({
+            initialGlobalState: 0,
+            agents: [hung],
+            shouldExit: () => false,
+            maxDurationMs: 20,
+          });
+
+          simulation.dispatch({ type: "ASK" });
+          const result = await simulation.exit();
+
+          expect(result.exitReason).toEqual({ type: "maxDuration" });
+          expect(signal?.aborted).toBe(true);
+        });
+
+        it("should time out hung agents", async () => {
+          const hung = createAgent<number, LoopAction>("hung", () => new Promise<void>(() => {}));
+          const quick = createAgent<number, LoopAction>("quick", (_action, context) => {
+            context.updateGlobalState((count) => count + 1);
+          });
+
+          const simulation = createSimulation<number, LoopAction>({
+            initialGlobalState: 0,
+            agents: [hung, quick],
+            shouldExit: () => false,
+            actionTimeoutMs: 10,
+          });
+
+          await expect(simulation.dispatch({ type: "ASK" })).rejects.toThrow(ActionTimeoutError);
+          const result = await simulation.exit();
+
+          expect(result.globalState).toBe(1);
+          expect(result.exitReason.type).toBe("actionTimeout");
+          expect(result.errors[0]?.message).toBe(
+            'Agent "hung" did not handle the action within 10ms'
+          );
+        });
+
+        it("should let error policies handle timeouts", async () => {
+          let hungCalls = 0;
+          const hung: Agent<number, LoopAction> = {
+            id: "hung",
+            onAction: () => {
+              hungCalls++;
+              return new Promise<void>(() => {});
+            },
+            actionTimeoutMs: 5,
+            errorPolicy: { retry: 1, fallback: "skip" },
+          };
+
+          const simulation = createSimulation<number, LoopAction>({
+            initialGlobalState: 0,
+            agents: [hung],
+            shouldExit: ({ actionCount }) => actionCount >= 1,
+          });
+
+          await simulation.dispatch({ type: "ASK" });
+          const result = await simulation.exit();
+
+          expect(hungCalls).toBe(2);
+          expect(result.exitReason.type).toBe("shouldExit");
+          expect(result.agentStats.hung).toMatchObject({ actionsHandled: 1, errors: 1 });
+        });
+
+        it("should cancel timed-out attempts before retrying", async () => {
+          const signals: AbortSignal[] = [];
+          const slow: Agent<number, LoopAction> = {
+            id: "slow",
+            onAction: async (_action, context) => {
+              signals.push(context.signal);
+              // The first attempt finishes late, after its retry
+              await new Promise((resolve) => setTimeout(resolve, signals.length === 1 ? 20 : 0));
+              context.updateGlobalState((count) => count + 1);
+              context.dispatch({ type: "PING" }, { to: [] });
+            },
+            actionTimeoutMs: 10,
+            errorPolicy: { retry: 1 },
+          };
+
+          const simulation = createSimulation<number, LoopAction>({
+            initialGlobalState: 0,
+            agents: [slow],
+            shouldExit: () => false,
+          });
+
+          await simulation.dispatch({ type: "ASK" });
+          await new Promise((resolve) => setTimeout(resolve, 30));
+
+          expect(signals.map(({ aborted }) => aborted)).toEqual([true, false]);
+          expect(signals[0]!.reason).toBeInstanceOf(ActionTimeoutError);
+          expect(simulation.getGlobalState()).toBe(1);
+          expect(simulation.getActionCount()).toBe(2);
+        });
+
+        it("should ignore schedules and agent changes from timed-out attempts", async () => {
+          let attempts = 0;
+          const slow: Agent<number, LoopAction> = {
+            id: "slow",
+            onAction: async (action, context) => {
+              if (action.type !== "ASK") {
+                return;
+              }
+              const attempt = ++attempts;
+              // The first attempt finishes late, after its retry
+              await new Promise((resolve) => setTimeout(resolve, attempt === 1 ? 20 : 0));
+              context.schedule({ type: "PING" }, { at: 5 });
+              context.spawnAgent(createAgent(`helper-${attempt}`, () => {}));
+            },
+            actionTimeoutMs: 10,
+            errorPolicy: { retry: 1 },
+          };
+
+          const simulation = createSimulation<number, LoopAction>({
+            initialGlobalState: 0,
+            agents: [slow],
+            shouldExit: () => false,
+          });
+
+          await simulation.dispatch({ type: "ASK" });
+          await new Promise((resolve) => setTimeout(resolve, 30));
+
+          const snapshot = simulation.snapshot();
+          expect(snapshot.scheduled).toEqual([]);
+          expect(snapshot.agentIds).toEqual(["slow", "helper-2"]);
+          expect(simulation.getActionCount()).toBe(2);
+        });
+      });
+
+      describe("Seeded Randomness", () => {
+        type WalkAction = { type: "STEP" };
+        type Walks = { [agentId: string]: number[] };
+
+        const createWalker = (id: string) =>
+          createAgent<Walks, WalkAction>(id, (_action, context) => {
+            const { random } = context;
+            const value =
+              random.next() +
+              random.int(1, 6) +
+              random.normal(100, 15) +
+              random.pick([10, 20, 30]) +
+              random.shuffle([1, 2, 3])[0]!;
+            context.updateGlobalState((walks) => ({
+              ...walks,
+              [id]: [...(walks[id] ?? []), value],
+            }));
+          });
+
+        const createWalkConfig = (
+          seed: number,
+          agentIds = ["walker"]
+        ): SimulationConfig<Walks, WalkAction> => ({
+          initialGlobalState: {},
+          agents: agentIds.map(createWalker),
+          shouldExit: ({ actionCount }) => actionCount >= 5,
+          seed,
+        });
+
+        const createWalk = (seed: number, agentIds?: string[]) =>
+          createSimulation(createWalkConfig(seed, agentIds));
+
+        const runWalk = async (seed: number, agentIds?: string[]) => {
+          const simulation = createWalk(seed, agentIds);
+          for (let i = 0; i < 5; i++) {
+            await simulation.dispatch({ type: "STEP" });
+          }
+          return simulation.getGlobalState();
+        };
+
+        it("should reproduce runs with the same seed", async () => {
+          const first = await runWalk(7);
+          const second = await runWalk(7);
+          const other = await runWalk(8);
+
+          expect(first.walker).toHaveLength(5);
+          expect(second).toEqual(first);
+          expect(other).not.toEqual(first);
+        });
+
+        it("should give each agent an independent stream", async () => {
+          const alone = await runWalk(7, ["walker"]);
+          const together = await runWalk(7, ["rival", "walker"]);
+
+          expect(together.walker).toEqual(alone.walker!);
+          expect(together.rival).not.toEqual(alone.walker!);
+        });
+
+        it("should continue random sequences when resuming from a snapshot", async () => {
+          let snapshot: any = null;
+          const interrupted = createWalk(7);
+          interrupted.on("action", ({ actionCount }) => {
+            if (actionCount === 2) {
+              snapshot = interrupted.snapshot();
+            }
+          });
+          for (let i = 0; i < 2; i++) {
+            await interrupted.dispatch({ type: "STEP" });
+          }
+
+          const resumed = createSimulation({
+            ...createWalkConfig(0),
+            fromSnapshot: JSON.parse(JSON.stringify(snapshot)),
+          });
+          for (let i = 0; i < 3; i++) {
+            await resumed.dispatch({ type: "STEP" });
+          }
+
+          expect(resumed.getGlobalState()).toEqual(await runWalk(7));
+        });
+
+        it("should generate values in range", () => {
+          const random = createRandom(1);
+          for (let i = 0; i < 100; i++) {
+            const value = random.int(3, 5);
+            expect(value).toBeGreaterThanOrEqual(3);
+            expect(value).toBeLessThanOrEqual(5);
+          }
+          expect(() => random.pick([])).toThrow("Cannot pick from an empty array");
+        });
+      });
+
+      describe("Typed Agent States", () => {
+        interface ScoutState {
+          found: number;
+        }
+
+        interface LeaderState {
+          orders: string[];
+        }
+
+        type SquadStates = {
+          scout: ScoutState;
+          leader: LeaderState;
+        };
+
+        it("should type internal state and other agents by id", async () => {
+          const scout = createAgent<number, TestAction, ScoutState, SquadStates>(
+            "scout",
+            (action, context) => {
+              if (action.type === "INCREMENT") {
+                context.updateInternalState((state) => ({
+                  found: state.found + action.amount,
+                }));
+                // @ts-expect-error - unknown internal state property
+                context.internalState.fuond;
+              }
+            },
+            { found: 0 }
+          );
+
+          let leaderSawScout: number | undefined;
+          const leader = createAgent<number, TestAction, LeaderState, SquadStates>(
+            "leader",
+            (action, context) => {
+              for (const agent of context.allAgents) {
+                if (agent.id === "scout") {
+                  leaderSawScout = agent.internalState.found;
+                } else {
+                  const orders: string[] = agent.internalState.orders;
+                  expect(orders).toEqual([]);
+                }
+              }
+            },
+            { orders: [] }
+          );
+
+          const simulation = createSimulation<number, TestAction, SquadStates>({
+            initialGlobalState: 0,
+            agents: [scout, leader],
+            shouldExit: ({ agentStates }) => agentStates.scout.found >= 5,
+          });
+
+          await simulation.dispatch({ type: "INCREMENT", amount: 3 });
+          await simulation.dispatch({ type: "INCREMENT", amount: 2 });
+
+          const scoutState: ScoutState = simulation.getAgentInternalState("scout");
+          expect(scoutState.found).toBe(5);
+          expect(leaderSawScout).toBe(5);
+          expect(simulation.hasSimulationExited()).toBe(true);
+
+          // @ts-expect-error - unknown agent id
+          simulation.getAgentInternalState("scuot");
+        });
+      });
+
+      describe("Snapshots", () => {
+        const createChainAgent = () =>
+          createAgent<number, TestAction, { steps: number }>(
+            "chain",
+            (action, context) => {
+              if (action.type === "INCREMENT") {
+                context.updateGlobalState((state) => state + action.amount);
+                context.updateInternalState((state) => ({
+                  steps: state.steps + 1,
+                }));
+                context.dispatch({ type: "INCREMENT", amount: action.amount + 1 });
+              }
+            },
+            { steps: 0 }
+          );
+
+        it("should capture a JSON-safe snapshot of the full state", async () => {
+          let snapshot: any = null;
+          const simulation = createSimulation<number, TestAction>({
+            initialGlobalState: 0,
+            agents: [createChainAgent()],
+            shouldExit: ({ actionCount }) => {
+              if (actionCount === 2) {
+                snapshot = simulation.snapshot();
+              }
+              return actionCount >= 4;
+            },
+            seed: 42,
+          });
+
+          await simulation.dispatch({ type: "INCREMENT", amount: 1 });
+
+          expect(JSON.parse(JSON.stringify(snapshot))).toEqual({
+            globalState: 3,
+            agentIds: ["chain"],
+            agentStates: { chain: { steps: 2 } },
+            actionQueue: [
+              {
+                action: { type: "INCREMENT", amount: 3 },
+                dispatchedBy: "chain",
+              },
+            ],
+            actionCount: 2,
+            droppedTicks: 0,
+            hasExited: false,
+            tick: 0,
+            scheduled: [],
+            hasStarted: true,
+            startedAgentIds: ["chain"],
+            errors: [],
+            agentStats: {
+              chain: {
+                actionsHandled: 2,
+                errors: 0,
+                stateChanges: 4,
+                busyMs: expect.any(Number),
+              },
+            },
+            unhandledActions: {},
+            llmCallCounts: {},
+            llmUsage: {
+              total: {
+                calls: 0,
+                cachedCalls: 0,
+                promptTokens: 0,
+                completionTokens: 0,
+                latencyMs: 0,
+                cost: 0,
+              },
+              byAgent: {},
+              byActionType: {},
+            },
+            random: { seed: 42, simulation: 42, agents: { chain: expect.any(Number) } },
+          });
+          expect(simulation.snapshot().hasExited).toBe(true);
+        });
+
+        it("should keep the reason for an aborted run through JSON", async () => {
+          const simulation = createSimulation<number, TestAction>({
+            initialGlobalState: 0,
+            agents: [createChainAgent()],
+            shouldExit: () => false,
+          });
+          await simulation.abort(new Error("operator stop"));
+
+          const snapshot = JSON.parse(JSON.stringify(simulation.snapshot()));
+
+          expect(snapshot.exitReason).toEqual({
+            type: "aborted",
+            reason: { name: "Error", message: "operator stop" },
+          });
+        });
+
+        it("should resume a run from a snapshot", async () => {
+          let snapshot: any = null;
+          const interrupted = createSimulation<number, TestAction>({
+            initialGlobalState: 0,
+            agents: [createChainAgent()],
+            shouldExit: ({ actionCount }) => {
+              if (actionCount === 2) {
+                snapshot = interrupted.snapshot();
+                return true; // Simulate a crash partway through
+              }
+              return false;
+            },
+          });
+          await interrupted.dispatch({ type: "INCREMENT", amount: 1 });
+
+          const resumed = createSimulation<number, TestAction>({
+            initialGlobalState: 0,
+            agents: [createChainAgent()],
+            shouldExit: ({ actionCount }) => actionCount >= 4,
+            fromSnapshot: snapshot,
+          });
+
+          expect(resumed.getGlobalState()).toBe(3);
+          await resumed.run();
+
+          // 1 + 2 + 3 + 4
+          expect(resumed.getGlobalState()).toBe(10);
+          expect(resumed.getAgentInternalState("chain")).toEqual({ steps: 4 });
+          expect(resumed.getActionCount()).toBe(4);
+          expect(resumed.hasSimulationExited()).toBe(true);
+        });
+
+        it("should resume without rerunning onStart hooks or losing run results", async () => {
+          const createConfig = (): SimulationConfig<number, TestAction> => {
+            const counter = createAgent<number, TestAction, { n: number }>(
+              "counter",
+              (action, context) => {
+                if (action.type === "DOUBLE") {
+                  throw new Error("cannot double");
+                }
+                if (action.type === "INCREMENT") {
+                  context.updateInternalState(({ n }) => ({ n: n + 1 }));
+                }
+              },
+              { n: 0 },
+              { subscribes: ["START", "INCREMENT", "DOUBLE"] }
+            );
+            counter.onStart = (context) => {
+              context.updateInternalState(() => ({ n: 0 }));
+            };
+            return {
+              initialGlobalState: 0,
+              agents: [counter],
+              shouldExit: () => false,
+              errorPolicy: "skip",
+              onStart: ({ dispatch }) => dispatch({ type: "START" }),
+            };
+          };
+
+          const interrupted = createSimulation<number, TestAction>(createConfig());
+          await interrupted.dispatch({ type: "INCREMENT", amount: 1 });
+          await interrupted.dispatch({ type: "DOUBLE" });
+          await interrupted.dispatch({ type: "COMPLETED", agentId: "counter" });
+          const snapshot = JSON.parse(JSON.stringify(interrupted.snapshot()));
+
+          const resumed = createSimulation<number, TestAction>({
+            ...createConfig(),
+            fromSnapshot: snapshot,
+          });
+          await resumed.dispatch({ type: "INCREMENT", amount: 1 });
+          await resumed.abort();
+          const result = await resumed.exit();
+
+          expect(result.agentStates.counter).toEqual({ n: 2 });
+          expect(result.actionCount).toBe(5);
+          expect(result.errors).toEqual([
+            expect.objectContaining({
+              agentId: "counter",
+              error: { name: "Error", message: "cannot double" },
+            }),
+          ]);
+          expect(result.agentStats.counter).toMatchObject({
+            actionsHandled: 4,
+            errors: 1,
+          });
+          expect(resumed.getUnhandledActionTypes()).toEqual({ COMPLETED: 1 });
+        });
+
+        it("should not share state with the snapshot it was restored from", async () => {
+          const snapshot = {
+            globalState: 0,
+            agentIds: ["chain"],
+            agentStates: { chain: { steps: 0 } },
+            actionQueue: [],
+            actionCount: 0,
+            hasExited: false,
+            tick: 0,
+            scheduled: [],
+          };
+
+          const simulation = createSimulation<number, TestAction>({
+            initialGlobalState: 0,
+            agents: [createChainAgent()],
+            shouldExit: ({ actionCount }) => actionCount >= 1,
+            fromSnapshot: snapshot,
+          });
+          await simulation.dispatch({ type: "INCREMENT", amount: 1 });
+
+          expect(snapshot.agentStates.chain).toEqual({ steps: 0 });
+        });
+      });
+
+      describe("Event Log and Replay", () => {
+        const createCounterAgents = () => [
+          createAgent<number, TestAction>("starter", (action, context) => {
+            if (action.type === "START") {
+              context.dispatch({ type: "INCREMENT", amount: 2 });
+            }
+          }),
+          createAgent<number, TestAction, { seen: number }>(
+            "counter",
+            (action, context) => {
+              context.updateInternalState((state) => ({
+                seen: state.seen + 1,
+              }));
+              if (action.type === "INCREMENT") {
+                context.updateGlobalState((state) => state + action.amount);
+                context.dispatch({ type: "DOUBLE" });
+              } else if (action.type === "DOUBLE") {
+                context.updateGlobalState((state) => state * 2);
+              }
+            },
+            { seen: 0 }
+          ),
+        ];
+
+        it("should record actions, dispatchers and state changes", async () => {
+          const simulation = createSimulation<number, TestAction>({
+            initialGlobalState: 1,
+            agents: createCounterAgents(),
+            shouldExit: ({ actionCount }) => actionCount >= 3,
+            record: true,
+          });
+
+          await simulation.dispatch({ type: "START" });
+
+          const log = simulation.getEventLog()!;
+          expect(log.initialGlobalState).toBe(1);
+          expect(log.initialAgentStates).toEqual({ counter: { seen: 0 } });
+          expect(log.entries.map((entry) => entry.dispatchedBy)).toEqual([
+            null,
+            "starter",
+            "counter",
+          ]);
+          expect(log.entries[1]).toEqual({
+            action: { type: "INCREMENT", amount: 2 },
+            dispatchedBy: "starter",
+            tick: 0,
+            changes: [
+              { type: "internal", agentId: "counter", state: { seen: 2 } },
+              { type: "global", agentId: "counter", state: 3 },
+            ],
+          });
+        });
+
+        it("should not record when recording is disabled", async () => {
+          const simulation = createSimulation<number, TestAction>({
+            initialGlobalState: 1,
+            agents: createCounterAgents(),
+            shouldExit: ({ actionCount }) => actionCount >= 3,
+          });
+
+          await simulation.dispatch({ type: "START" });
+
+          expect(simulation.getEventLog()).toBeUndefined();
+        });
+
+        it("should replay a serialized log without calling onAction", async () => {
+          const recorded = createSimulation<number, TestAction>({
+            initialGlobalState: 1,
+            agents: createCounterAgents(),
+            shouldExit: ({ actionCount }) => actionCount >= 3,
+            record: true,
+          });
+          await recorded.dispatch({ type: "START" });
+
+          const serialized = JSON.stringify(recorded.getEventLog());
+          let onActionCalls = 0;
+          const replayed = createSimulation<number, TestAction>({
+            initialGlobalState: 0,
+            agents: [
+              createAgent<number, TestAction>("starter", () => {
+                onActionCalls++;
+              }),
+              createAgent<number, TestAction>("counter", () => {
+                onActionCalls++;
+              }),
+            ],
+            shouldExit: ({ actionCount }) => actionCount >= 3,
+            replay: JSON.parse(serialized),
+          });
+
+          await replayed.replay();
+
+          expect(onActionCalls).toBe(0);
+          expect(replayed.getGlobalState()).toBe(recorded.getGlobalState());
+          expect(replayed.getAllAgentStates()).toEqual(
+            recorded.getAllAgentStates()
+          );
+          expect(replayed.getActionCount()).toBe(3);
+          expect(replayed.hasSimulationExited()).toBe(true);
+        });
+
+        it("should record and replay state set in onStart hooks", async () => {
+          const createMemoryAgent = () => {
+            const agent = createAgent<number, TestAction, { notes: string[] }>(
+              "memory",
+              (action, context) => {
+                context.updateInternalState(({ notes }) => ({
+                  notes: [...notes, action.type],
+                }));
+              },
+              { notes: [] }
+            );
+            agent.onStart = (context) =>
+              context.updateInternalState(() => ({ notes: ["loaded"] }));
+            return agent;
+          };
+
+          const recorded = createSimulation<number, TestAction>({
+            initialGlobalState: 0,
+            agents: [createMemoryAgent()],
+            shouldExit: ({ actionCount }) => actionCount >= 1,
+            record: true,
+          });
+          await recorded.dispatch({ type: "START" });
+
+          const replayed = createSimulation<number, TestAction>({
+            initialGlobalState: 0,
+            agents: [createMemoryAgent()],
+            shouldExit: ({ actionCount }) => actionCount >= 1,
+            replay: JSON.parse(JSON.stringify(recorded.getEventLog())),
+          });
+          await replayed.replay();
+
+          expect(recorded.getEventLog()!.startChanges).toEqual([
+            { type: "internal", agentId: "memory", state: { notes: ["loaded"] } },
+          ]);
+          expect(replayed.getAgentInternalState("memory")).toEqual({
+            notes: ["loaded", "START"],
+          });
+        });
+
+        it("should end a replay the way the recorded run ended", async () => {
+          const recorded = createSimulation<number, TestAction>({
+            initialGlobalState: 1,
+            agents: createCounterAgents(),
+            shouldExit: () => false,
+            record: true,
+          });
+          await recorded.dispatch({ type: "INCREMENT", amount: 1 });
+          await recorded.abort(new Error("operator stop"));
+
+          const replayed = createSimulation<number, TestAction>({
+            initialGlobalState: 1,
+            agents: createCounterAgents(),
+            shouldExit: () => false,
+            replay: JSON.parse(JSON.stringify(recorded.getEventLog())),
+          });
+          await replayed.replay();
+          const result = await replayed.exit();
+
+          expect(result.exitReason).toEqual({
+            type: "aborted",
+            reason: { name: "Error", message: "operator stop" },
+          });
+          expect(result.globalState).toBe(recorded.getGlobalState());
+        });
+
+        it("should reject dispatches while in replay mode", async () => {
+          const simulation = createSimulation<number, TestAction>({
+            initialGlobalState: 0,
+            agents: [],
+            shouldExit: () => false,
+            replay: { initialGlobalState: 0, initialAgentStates: {}, entries: [] },
+          });
+
+          await expect(simulation.dispatch({ type: "START" })).rejects.toThrow(
+            "Cannot dispatch actions while replaying an event log"
+          );
+        });
+      });
+    });
+
+    describe("createLLMAgent", () => {
+      type MarketAction =
+        | { type: "TURN"; turn: number }
+        | { type: "TRADE"; side: "buy" | "sell" };
+
+      const decisionSchema = z.object({
+        side: z.enum(["buy", "sell"]),
+        reasoning: z.string(),
+      });
+
+      // Mock model answering with the given texts in turn, recording its prompts
+      const createMockModel = (responses: string[]) => {
+        const prompts: string[] = [];
+        const model = new MockLanguageModelV1({
+          defaultObjectGenerationMode: "json",
+          doGenerate: async ({ prompt }) => {
+            prompts.push(JSON.stringify(prompt));
+            return {
+              rawCall: { rawPrompt: null, rawSettings: {} },
+              finishReason: "stop",
+              usage: { promptTokens: 10, completionTokens: 5 },
+              text: responses[Math.min(prompts.length - 1, responses.length - 1)],
+            };
+          },
+        });
+        return { model, prompts };
+      };
+
+      const createTrader = (
+        model: MockLanguageModelV1,
+        options: { retries?: number; memory?: number } = {}
+      ) =>
+        createLLMAgent<number, MarketAction, z.infer<typeof decisionSchema>>({
+          id: "trader",
+          persona: "You are a cautious commodity trader.",
+          schema: decisionSchema,
+          model,
+          buildPrompt: (action, context) =>
+            action.type === "TURN"
+              ? `Turn ${action.turn}. The price is ${context.globalState}.`
+              : undefined,
+          onDecision: (decision, _action, context) => {
+            context.dispatch({ type: "TRADE", side: decision.side });
+          },
+          ...options,
+        });
+
+      it("should turn structured model decisions into actions", async () => {
+        const { model, prompts } = createMockModel([
+          '{"side":"buy","reasoning":"Cheap"}',
+        ]);
+        const trades: string[] = [];
+        const simulation = createSimulation<number, MarketAction>({
+          initialGlobalState: 42,
+          agents: [
+            createTrader(model),
+            createAgent("exchange", (action) => {
+              if (action.type === "TRADE") {
+                trades.push(action.side);
+              }
+            }),
+          ],
+          shouldExit: () => false,
+        });
+
+        await simulation.dispatch({ type: "TURN", turn: 1 });
+
+        expect(trades).toEqual(["buy"]);
+        expect(prompts).toHaveLength(1);
+        expect(prompts[0]).toContain("You are a cautious commodity trader.");
+        expect(prompts[0]).toContain("Turn 1. The price is 42.");
+      });
+
+      it("should retry malformed responses", async () => {
+        const { model, prompts } = createMockModel([
+          '{"side":"hold"}',
+          "not json",
+          '{"side":"sell","reasoning":"Too high"}',
+        ]);
+        const simulation = createSimulation<number, MarketAction>({
+          initialGlobalState: 42,
+          agents: [createTrader(model)],
+          shouldExit: ({ lastAction }) => lastAction.type === "TRADE",
+        });
+
+        await simulation.dispatch({ type: "TURN", turn: 1 });
+        expect(prompts).toHaveLength(3);
+
+        const failing = createMockModel(["not json"]);
+        const failingSimulation = createSimulation<number, MarketAction>({
+          initialGlobalState: 42,
+          agents: [createTrader(failing.model, { retries: 1 })],
+          shouldExit: () => false,
+          errorPolicy: "skip",
+        });
+        await failingSimulation.dispatch({ type: "TURN", turn: 1 });
+
+        expect(failing.prompts).toHaveLength(2);
+        expect(failingSimulation.getErrors()[0]?.attempts).toBe(1);
+      });
+
+      it("should remember recent decisions", async () => {
+        const { model, prompts } = createMockModel([
+          '{"side":"buy","reasoning":"First"}',
+          '{"side":"sell","reasoning":"Second"}',
+          '{"side":"buy","reasoning":"Third"}',
+        ]);
+        const simulation = createSimulation<number, MarketAction>({
+          initialGlobalState: 42,
+          agents: [createTrader(model, { memory: 2 })],
+          shouldExit: () => false,
+        });
+
+        for (let turn = 1; turn <= 3; turn++) {
+          await simulation.dispatch({ type: "TURN", turn });
+        }
+
+        expect(prompts[0]).not.toContain("previous decisions");
+        expect(prompts[2]).toContain("Second");
+        expect(simulation.getAgentInternalState("trader")).toEqual({
+          memory: [
+            { side: "sell", reasoning: "Second" },
+            { side: "buy", reasoning: "Third" },
+          ],
+        });
+      });
+    });
+
+    describe("LLM Providers", () => {
+      type RoundAction = { type: "ROUND"; round: number };
+      const moveSchema = z.object({ move: z.enum(["cooperate", "defect"]) });
+
+      const createPlayer = (id: string) =>
+        createAgent<string[], RoundAction>(id, async (action, context) => {
+          const { move } = await context.llm.generateObject(
+            moveSchema,
+            `Round ${action.round}: cooperate or defect?`,
+            { system: `You are ${id}.` }
+          );
+          context.updateGlobalState((moves) => [...moves, `${id}:${move}`]);
+        });
+
+      it("should route context.llm calls through the configured provider", async () => {
+        const llm = createMockProvider((request) => ({
+          move: request.system === "You are alice." ? "cooperate" : "defect",
+        }));
+        const simulation = createSimulation<string[], RoundAction>({
+          initialGlobalState: [],
+          agents: [createPlayer("alice"), createPlayer("bob")],
+          shouldExit: () => false,
+          executionMode: "sequential",
+          llm,
+        });
+
+        await simulation.dispatch({ type: "ROUND", round: 1 });
+
+        expect(simulation.getGlobalState()).toEqual(["alice:cooperate", "bob:defect"]);
+        expect(llm.requests.map(({ prompt }) => prompt)).toEqual([
+          "Round 1: cooperate or defect?",
+          "Round 1: cooperate or defect?",
+        ]);
+      });
+
+      it("should answer with scripted responses checked against the schema", async () => {
+        const llm = createMockProvider([{ move: "defect" }, { move: "surrender" }]);
+
+        expect(await llm.generateObject({ schema: moveSchema, prompt: "1" })).toEqual({
+          object: { move: "defect" },
+          usage: { promptTokens: 1, completionTokens: 5 },
+        });
+        await expect(llm.generateObject({ schema: moveSchema, prompt: "2" })).rejects.toThrow(
+          "Invalid enum value"
+        );
+        await expect(llm.generateObject({ schema: moveSchema, prompt: "3" })).rejects.toThrow(
+          "Mock provider has no response for request 3"
+        );
+      });
+
+      it("should run LLM agents against the simulation's provider", async () => {
+        const llm = createMockProvider([{ side: "sell" }]);
+        const trader = createLLMAgent<number, RoundAction, { side: string }>({
+          id: "trader",
+          persona: "You are a trader.",
+          schema: z.object({ side: z.string() }),
+          buildPrompt: (action) => `Round ${action.round}`,
+          onDecision: (decision, _action, context) => {
+            context.updateGlobalState((position) => position + (decision.side === "buy" ? 1 : -1));
+          },
+        });
+
+        const simulation = createSimulation<number, RoundAction>({
+          initialGlobalState: 0,
+          agents: [trader],
+          shouldExit: () => false,
+          llm,
+        });
+        await simulation.dispatch({ type: "ROUND", round: 1 });
+
+        expect(simulation.getGlobalState()).toBe(-1);
+        expect(llm.requests[0]).toMatchObject({ system: "You are a trader.", prompt: "Round 1" });
+      });
+
+      it("should fail agents that call context.llm without a provider", async () => {
+        const simulation = createSimulation<string[], RoundAction>({
+          initialGlobalState: [],
+          agents: [createPlayer("alice")],
+          shouldExit: () => false,
+        });
+
+        await expect(simulation.dispatch({ type: "ROUND", round: 1 })).rejects.toThrow(
+          "No LLM provider configured"
+        );
+      });
+    });
+
+    describe("LLM Cache", () => {
+      type AskAction = { type: "ASK"; question: string };
+      const answerSchema = z.object({ answer: z.string() });
+
+      const createAsker = (schema: z.ZodType<{ answer: string }, any, any> = answerSchema) =>
+        createAgent<string[], AskAction>("asker", async (action, context) => {
+          const { answer } = await context.llm.generateObject(schema, action.question);
+          context.updateGlobalState((answers) => [...answers, answer]);
+        });
+
+      const runQuestions = async (
+        config: Partial<SimulationConfig<string[], AskAction>>,
+        questions = ["Buy?", "Buy?", "Sell?"]
+      ) => {
+        const simulation = createSimulation<string[], AskAction>({
+          initialGlobalState: [],
+          agents: [createAsker()],
+          shouldExit: () => false,
+          seed: 1,
+          ...config,
+        });
+        for (const question of questions) {
+          await simulation.dispatch({ type: "ASK", question });
+        }
+        return simulation.getGlobalState();
+      };
+
+      const createCountingProvider = () => {
+        let calls = 0;
+        return createMockProvider(({ prompt }) => ({ answer: `${prompt} #${++calls}` }));
+      };
+
+      it("should reuse responses across runs with the same seed", async () => {
+        const llmCache = createMemoryCache();
+        const first = createCountingProvider();
+        const second = createCountingProvider();
+
+        const original = await runQuestions({ llm: first, llmCache });
+        const rerun = await runQuestions({ llm: second, llmCache });
+
+        expect(original).toEqual(["Buy? #1", "Buy? #2", "Sell? #3"]);
+        expect(rerun).toEqual(original);
+        expect(second.requests).toHaveLength(0);
+      });
+
+      it("should call the provider on a miss when the schema accepts undefined", async () => {
+        const llm = createMockProvider(["hold"]);
+        const simulation = createSimulation<(string | undefined)[], AskAction>({
+          initialGlobalState: [],
+          agents: [
+            createAgent<(string | undefined)[], AskAction>("asker", async (action, context) => {
+              const answer = await context.llm.generateObject(
+                z.string().optional(),
+                action.question
+              );
+              context.updateGlobalState((answers) => [...answers, answer]);
+            }),
+          ],
+          shouldExit: () => false,
+          llm,
+          llmCache: createMemoryCache(),
+        });
+
+        await simulation.dispatch({ type: "ASK", question: "Buy?" });
+
+        expect(simulation.getGlobalState()).toEqual(["hold"]);
+        expect(llm.requests).toHaveLength(1);
+      });
+
+      it("should keep replaying cached completions in order after resuming", async () => {
+        const llmCache = createMemoryCache();
+        const original = createSimulation<string[], AskAction>({
+          initialGlobalState: [],
+          agents: [createAsker()],
+          shouldExit: () => false,
+          seed: 1,
+          llm: createCountingProvider(),
+          llmCache,
+        });
+        await original.dispatch({ type: "ASK", question: "Buy?" });
+        const snapshot = original.snapshot();
+        await original.dispatch({ type: "ASK", question: "Buy?" });
+        // Calls are counted by hash, without keeping their prompts
+        expect(Object.keys(snapshot.llmCallCounts!)).toEqual([
+          expect.stringMatching(/^[0-9a-f]{64}$/),
+        ]);
+
+        const resumed = createSimulation<string[], AskAction>({
+          initialGlobalState: [],
+          agents: [createAsker()],
+          shouldExit: () => false,
+          llm: createMockProvider([]),
+          llmCache,
+          fromSnapshot: snapshot,
+        });
+        await resumed.dispatch({ type: "ASK", question: "Buy?" });
+
+        expect(resumed.getGlobalState()).toEqual(original.getGlobalState());
+      });
+
+      it("should miss the cache when the seed, model or schema changes", async () => {
+        const llmCache = createMemoryCache();
+        await runQuestions({ llm: createCountingProvider(), llmCache });
+
+        const otherSeed = createCountingProvider();
+        await runQuestions({ llm: otherSeed, llmCache, seed: 2 });
+        expect(otherSeed.requests).toHaveLength(3);
+
+        const otherModel = { ...createCountingProvider(), id: "other-model" };
+        await runQuestions({ llm: otherModel, llmCache });
+        expect(otherModel.requests).toHaveLength(3);
+
+        const otherSchema = createCountingProvider();
+        await runQuestions({
+          llm: otherSchema,
+          llmCache,
+          agents: [createAsker(z.object({ answer: z.string().describe("One word") }))],
+        });
+        expect(otherSchema.requests).toHaveLength(3);
+      });
+
+      it("should persist responses on disk", async () => {
+        const directory = await mkdtemp(join(tmpdir(), "simullm-cache-"));
+        try {
+          const original = await runQuestions({
+            llm: createCountingProvider(),
+            llmCache: createFileCache(directory),
+          });
+
+          const offline = createMockProvider([]);
+          const rerun = await runQuestions({
+            llm: offline,
+            llmCache: createFileCache(directory),
+          });
+
+          expect(rerun).toEqual(original);
+          expect(await readdir(directory)).toHaveLength(3);
+        } finally {
+          await rm(directory, { recursive: true, force: true });
+        }
+      });
+    });
+
+    describe("LLM Usage and Costs", () => {
+      type DeskAction = { type: "QUOTE" } | { type: "NEWS" };
+      const answerSchema = z.object({ answer: z.string() });
+
+      // 100 prompt and 50 completion tokens per call
+      const createFixedProvider = (): LLMProvider => ({
+        id: "fixed",
+        generateObject: async ({ schema }) => ({
+          object: schema.parse({ answer: "hold" }),
+          usage: { promptTokens: 100, completionTokens: 50 },
+        }),
+      });
+
+      const createDesk = (id: string) =>
+        createAgent<number, DeskAction>(id, async (action, context) => {
+          await context.llm.generateObject(answerSchema, `${id}: ${action.type}`);
+          context.updateGlobalState((calls) => calls + 1);
+        });
+
+      const createDeskSimulation = (config: Partial<SimulationConfig<number, DeskAction>> = {}) =>
+        createSimulation<number, DeskAction>({
+          initialGlobalState: 0,
+          agents: [createDesk("buyer"), createDesk("seller")],
+          shouldExit: () => false,
+          llm: createFixedProvider(),
+          llmPricing: { fixed: { promptPerMillion: 10, completionPerMillion: 20 } },
+          seed: 1,
+          ...config,
+        });
+
+      it("should total tokens and cost per agent and action type", async () => {
+        const simulation = createDeskSimulation();
+        await simulation.dispatch({ type: "QUOTE" });
+        await simulation.dispatch({ type: "NEWS" });
+        await simulation.dispatch({ type: "QUOTE" });
+        const llmUsage = simulation.getLLMUsage();
+
+        expect(llmUsage.total).toMatchObject({
+          calls: 6,
+          cachedCalls: 0,
+          promptTokens: 600,
+          completionTokens: 300,
+        });
+        expect(llmUsage.total.cost).toBeCloseTo(0.012);
+        expect(llmUsage.byAgent.buyer!.calls).toBe(3);
+        expect(llmUsage.byAgent.seller!.cost).toBeCloseTo(0.006);
+        expect(llmUsage.byActionType.QUOTE!.promptTokens).toBe(400);
+        expect(llmUsage.byActionType.NEWS!.calls).toBe(2);
+      });
+
+      it("should count cached calls without tokens or cost", async () => {
+        const llmCache = createMemoryCache();
+        const first = createDeskSimulation({ llmCache });
+        await first.dispatch({ type: "QUOTE" });
+
+        const rerun = createDeskSimulation({ llmCache });
+        await rerun.dispatch({ type: "QUOTE" });
+        const llmUsage = rerun.getLLMUsage();
+
+        expect(llmUsage.total).toMatchObject({
+          calls: 2,
+          cachedCalls: 2,
+          promptTokens: 0,
+          completionTokens: 0,
+          cost: 0,
+        });
+      });
+
+      it("should stop the run once the budget is exceeded", async () => {
+        const simulation = createDeskSimulation({ llmBudget: { maxTokens: 400 } });
+        for (let i = 0; i < 5; i++) {
+          simulation.dispatch({ type: "QUOTE" });
+        }
+        const result = await simulation.exit();
+
+        expect(result.exitReason).toEqual({ type: "llmBudget" });
+        expect(result.actionCount).toBe(2);
+        expect(result.llmUsage.total.calls).toBe(4);
+      });
+
+      it("should reject LLM calls once the budget is exceeded", async () => {
+        let rejection: unknown;
+        const looper = createAgent<number, DeskAction>("looper", async (_action, context) => {
+          try {
+            for (let i = 0; i < 5; i++) {
+              await context.llm.generateObject(answerSchema, `call ${i}`);
+            }
+          } catch (error) {
+            rejection = error;
+            throw error;
+          }
+        });
+        const simulation = createSimulation<number, DeskAction>({
+          initialGlobalState: 0,
+          agents: [looper],
+          shouldExit: () => false,
+          llm: createFixedProvider(),
+          llmBudget: { maxTokens: 400 },
+        });
+
+        await simulation.dispatch({ type: "QUOTE" });
+        const result = await simulation.exit();
+
+        expect(rejection).toBeInstanceOf(LLMBudgetError);
+        expect(result.exitReason).toEqual({ type: "llmBudget" });
+        expect(result.llmUsage.total.calls).toBe(3);
+        expect(result.errors).toEqual([]);
+      });
+
+      it("should carry usage and the budget over to a resumed run", async () => {
+        const first = createDeskSimulation({ llmBudget: { maxTokens: 400 } });
+        await first.dispatch({ type: "QUOTE" });
+
+        const resumed = createDeskSimulation({
+          llmBudget: { maxTokens: 400 },
+          fromSnapshot: first.snapshot(),
+        });
+        await resumed.dispatch({ type: "QUOTE" });
+        const result = await resumed.exit();
+
+        expect(result.exitReason).toEqual({ type: "llmBudget" });
+        expect(result.llmUsage.total.calls).toBe(4);
+      });
+
+      it("should emit an llmCall event for every call", async () => {
+        const calls: LLMCall[] = [];
+        const simulation = createDeskSimulation();
+        simulation.on("llmCall", (call) => calls.push(call));
+
+        await simulation.dispatch({ type: "NEWS" });
+
+        expect(calls.map(({ agentId }) => agentId)).toEqual(["buyer", "seller"]);
+        expect(calls[0]).toMatchObject({
+          actionType: "NEWS",
+          model: "fixed",
+          promptTokens: 100,
+          completionTokens: 50,
+          cached: false,
+        });
+      });
+    });
+
+    describe("LLM Pool", () => {
+      type TickAction = { type: "TICK" };
+      const answerSchema = z.object({ answer: z.string() });
+      const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+      const createAsker = (id: string, calls = 1) =>
+        createAgent<null, TickAction>(id, async (_action, context) => {
+          await Promise.all(
+            Array.from({ length: calls }, (_, i) =>
+              context.llm.generateObject(answerSchema, `${id} ${i + 1}`)
+            )
+          );
+        });
+
+      it("should cap concurrent calls across agents", async () => {
+        let inFlight = 0;
+        let maxInFlight = 0;
+        const llm = createMockProvider(async () => {
+          maxInFlight = Math.max(maxInFlight, ++inFlight);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          inFlight--;
+          return { answer: "ok" };
+        });
+
+        const simulation = createSimulation<null, TickAction>({
+          initialGlobalState: null,
+          agents: ["a", "b", "c", "d", "e"].map((id) => createAsker(id)),
+          shouldExit: () => false,
+          llm,
+          llmPool: { concurrency: 2 },
+        });
+        await simulation.dispatch({ type: "TICK" });
+
+        expect(llm.requests).toHaveLength(5);
+        expect(maxInFlight).toBe(2);
+      });
+
+      it("should take turns between agents", async () => {
+        const llm = createMockProvider(() => ({ answer: "ok" }));
+        const simulation = createSimulation<null, TickAction>({
+          initialGlobalState: null,
+          agents: [createAsker("greedy", 3), createAsker("quiet")],
+          shouldExit: () => false,
+          llm,
+          llmPool: createLLMPool({ concurrency: 1 }),
+        });
+        await simulation.dispatch({ type: "TICK" });
+
+        expect(llm.requests.map(({ prompt }) => prompt)).toEqual([
+          "greedy 1",
+          "quiet 1",
+          "greedy 2",
+          "greedy 3",
+        ]);
+      });
+
+      it("should hold calls over the requests per minute until aborted", async () => {
+        const pool = createLLMPool({ requestsPerMinute: 2 });
+        const controller = new AbortController();
+        const started: string[] = [];
+        const call = (name: string) => () => {
+          started.push(name);
+          return Promise.resolve({ object: name });
+        };
+
+        const a = { simulationId: "sim", agentId: "a" };
+        const b = { simulationId: "sim", agentId: "b" };
+        const first = pool.schedule(a, 10, call("first"), controller.signal);
+        const second = pool.schedule(b, 10, call("second"), controller.signal);
+        const third = pool.schedule(a, 10, call("third"), controller.signal);
+        await Promise.all([first, second]);
+        await tick();
+
+        expect(started).toEqual(["first", "second"]);
+        controller.abort(new Error("stopped"));
+        await expect(third).rejects.toThrow("stopped");
+        expect(started).toEqual(["first", "second"]);
+      });
+
+      it("should count actual token usage once a call finishes", async () => {
+        const pool = createLLMPool({ tokensPerMinute: 100 });
+        let finish!: () => void;
+        const first = pool.schedule(
+          { simulationId: "sim", agentId: "a" },
+          80,
+          () =>
+            new Promise<LLMResponse<string>>((resolve) => {
+              finish = () =>
+                resolve({
+                  object: "first",
+                  usage: { promptTokens: 30, completionTokens: 10 },
+                });
+            })
+        );
+        let secondStarted = false;
+        const second = pool.schedule(
+          { simulationId: "sim", agentId: "b" },
+          30,
+          async () => {
+            secondStarted = true;
+            return { object: "second" };
+          }
+        );
+        await tick();
+        expect(secondStarted).toBe(false);
+
+        finish();
+        expect(await first).toMatchObject({ object: "first" });
+        expect(await second).toEqual({ object: "second" });
+      });
+
+      it("should give agents of different simulations separate turns", async () => {
+        const pool = createLLMPool({ concurrency: 1 });
+        const started: string[] = [];
+        const call = (name: string) => () => {
+          started.push(name);
+          return Promise.resolve({ object: name });
+        };
+        const first = { simulationId: "first", agentId: "trader" };
+        const second = { simulationId: "second", agentId: "trader" };
+
+        await Promise.all([
+          pool.schedule(first, 10, call("first 1")),
+          pool.schedule(first, 10, call("first 2")),
+          pool.schedule(first, 10, call("first 3")),
+          pool.schedule(second, 10, call("second 1")),
+        ]);
+
+        expect(started).toEqual(["first 1", "second 1", "first 2", "first 3"]);
+      });
+
+      it("should reject limits that aren't positive", () => {
+        expect(() => createLLMPool({ concurrency: 0 })).toThrow(
+          "LLM pool concurrency must be positive, got 0"
+        );
+      });
+    });
+
+    describe("runBatch", () => {
+      type GrowthParams = { traders: number; growth: number };
+      type GrowthAction = { type: "ROUND" };
+
+      const buildGrowth = ({ traders, growth }: GrowthParams) => ({
+        initialGlobalState: 100,
+        agents: Array.from({ length: traders }, (_, i) =>
+          createAgent<number, GrowthAction>(`trader-${i}`, (_action, context) => {
+            const noise = context.random.next() / 100;
+            context.updateGlobalState((price) => price * (1 + growth + noise));
+          })
+        ),
+        shouldExit: ({ actionCount }: { actionCount: number }) => actionCount >= 3,
+      });
+
+      it("should run every combination of a parameter grid and seed", async () => {
+        const progress: number[] = [];
+        const rows = await runBatch({
+          build: buildGrowth,
+          params: { traders: [1, 2], growth: [0, 0.1] },
+          seeds: [1, 2],
+          concurrency: 3,
+          start: async (simulation) => {
+            for (let i = 0; i < 3; i++) {
+              await simulation.dispatch({ type: "ROUND" });
+            }
+          },
+          onRunComplete: (_run, index) => progress.push(index),
+        });
+
+        expect(rows.map(({ params, seed }) => [params.traders, params.growth, seed])).toEqual([
+          [1, 0, 1],
+          [1, 0, 2],
+          [1, 0.1, 1],
+          [1, 0.1, 2],
+          [2, 0, 1],
+          [2, 0, 2],
+          [2, 0.1, 1],
+          [2, 0.1, 2],
+        ]);
+        expect(progress.sort()).toEqual([0, 1, 2, 3, 4, 5, 6, 7]);
+        expect(rows.every(({ result }) => result.actionCount === 3)).toBe(true);
+        expect(rows[0]!.result.globalState).not.toBe(rows[1]!.result.globalState);
+      });
+
+      it("should reproduce runs with the same seed", async () => {
+        const batch = () =>
+          runBatch({
+            build: buildGrowth,
+            params: [{ traders: 3, growth: 0.05 }],
+            seeds: [7, 7],
+            start: async (simulation) => {
+              for (let i = 0; i < 3; i++) {
+                await simulation.dispatch({ type: "ROUND" });
+              }
+            },
+          });
+
+        const [first, second] = await batch();
+        expect(second!.result.globalState).toBe(first!.result.globalState);
+        expect((await batch())[0]!.result).toMatchObject({
+          globalState: first!.result.globalState,
+          exitReason: { type: "shouldExit" },
+        });
+      });
+
+      it("should record runs that fail to start as aborted", async () => {
+        const rows = await runBatch({
+          build: () => ({
+            initialGlobalState: 0,
+            agents: [],
+            shouldExit: () => false,
+            actionSchema: z.object({ type: z.literal("ROUND") }),
+          }),
+          params: [{}],
+          start: (simulation) => simulation.dispatch({ type: "OOPS" } as any),
+        });
+
+        expect(rows[0]!.result.exitReason.type).toBe("aborted");
+      });
+
+      it("should end runs that go idle before shouldExit fires", async () => {
+        const rows = await runBatch({
+          build: () => ({
+            initialGlobalState: 0,
+            agents: [
+              createAgent<number, GrowthAction>("trader", (_action, context) => {
+                context.updateGlobalState((count) => count + 1);
+              }),
+            ],
+            shouldExit: ({ actionCount }: { actionCount: number }) => actionCount > 100,
+            onStart: ({ dispatch }) => dispatch({ type: "ROUND" }),
+          }),
+          params: [{}],
+        });
+
+        expect(rows[0]!.result).toMatchObject({
+          globalState: 1,
+          actionCount: 1,
+          exitReason: { type: "idle" },
+        });
+      });
     });
   });
 });
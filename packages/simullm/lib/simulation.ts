@@ -1,130 +1,1536 @@
 import type {
+  ActionTarget,
+  AgentError,
+  ActionType,
   Agent,
+  AgentInfo,
+  AgentOptions,
+  AgentStateMap,
+  AgentStats,
   Context,
+  DispatchOptions,
+  ErrorPolicy,
   SimulationConfig,
+  SimulationContext,
+  SimulationEvent,
+  SimulationEventMap,
+  SimulationEventType,
+  SimulationResult,
   ActionDispatcher,
   ExitContext,
+  ExitReason,
+  EventLog,
+  LLMCall,
+  LLMClient,
+  LLMPool,
+  LLMUsage,
+  LLMUsageReport,
+  QueuedAction,
+  ScheduledAction,
+  ScheduleOptions,
+  SimulationSnapshot,
+  StateConflict,
+  Random,
+  StateChange,
 } from "./types";
+import { createRandom, deriveSeed } from "./random";
+import { validate } from "./validation";
+import { ActionTimeoutError, LLMBudgetError, withTimeout } from "./limits";
+import { getCacheKey, getCallKey } from "./cache";
+import { createLLMPool } from "./pool";
+
+let nextSimulationId = 1;
+
+/**
+ * An entry of `agent.handlers`, called with an action of its type
+ */
+type ActionHandler<
+  TGlobalState,
+  TAction,
+  TAgentStates extends AgentStateMap
+> = (
+  action: TAction,
+  context: Context<TGlobalState, TAction, any, TAgentStates>
+) => void | Promise<void>;
 
 /**
  * Event-driven simulation engine
  */
-export class EventSimulation<TGlobalState, TAction> {
+export class EventSimulation<
+  TGlobalState,
+  TAction,
+  TAgentStates extends AgentStateMap = AgentStateMap
+> {
+  /** Identifies this simulation to a shared LLM pool */
+  private readonly id = `simulation-${nextSimulationId++}`;
   private globalState: TGlobalState;
-  private agents: Map<string, Agent<TGlobalState, TAction, any>> = new Map();
+  private agents: Map<string, Agent<TGlobalState, TAction, any, any>> =
+    new Map();
   private agentInternalStates: Map<string, any> = new Map();
-  private actionQueue: TAction[] = [];
+  private actionQueue: QueuedAction<TAction>[] = [];
+  private scheduled: ScheduledAction<TAction>[] = [];
+  private nextScheduleId = 1;
+  private tick = 0;
   private isProcessing = false;
+  private isPaused = false;
+  private stepRequested = false;
+  private abortController = new AbortController();
+  private lastAction?: TAction;
   private actionCount = 0;
+  private droppedTicks = 0;
   private hasExited = false;
-  private shouldExit: (context: ExitContext<TGlobalState, TAction>) => boolean;
-  private exitPromise: Promise<void>;
-  private resolveExit!: () => void;
+  private hasStarted = false;
+  private unstartedAgents: string[] = [];
+  private errors: AgentError<TAction>[] = [];
+  private seed: number;
+  private random: Random;
+  private agentRandoms: Map<string, Random> = new Map();
+  private llmCallCounts: Map<string, number> = new Map();
+  private llmPool?: LLMPool;
+  private llmUsage: LLMUsageReport = {
+    total: createUsage(),
+    byAgent: {},
+    byActionType: {},
+  };
+  private stateVersions: Map<string, { version: number; changedBy: string }> =
+    new Map();
+  private config: SimulationConfig<TGlobalState, TAction, TAgentStates>;
+  private exitPromise: Promise<
+    SimulationResult<TGlobalState, TAction, TAgentStates>
+  >;
+  private resolveExit!: (
+    result: SimulationResult<TGlobalState, TAction, TAgentStates>
+  ) => void;
+  private startedAt?: number;
+  private deadline?: ReturnType<typeof setTimeout>;
+  private exitReason?: ExitReason<TAction>;
+  private agentStats: Map<string, AgentStats> = new Map();
+  private eventLog?: EventLog<TGlobalState, TAction>;
+  private replayLog?: EventLog<TGlobalState, TAction>;
+  private subscriptions: Map<string, Set<string>> = new Map();
+  private unsubscribedAgents: Set<string> = new Set();
+  private unhandledActions: Map<string, number> = new Map();
+  private listeners: Map<SimulationEventType, Set<(payload: any) => void>> =
+    new Map();
+  private pendingAgentChanges: Array<
+    | { type: "spawn"; agent: Agent<TGlobalState, TAction, any, any> }
+    | { type: "remove"; agentId: string }
+  > = [];
 
-  constructor(config: SimulationConfig<TGlobalState, TAction>) {
-    this.globalState = config.initialGlobalState;
-    this.shouldExit = config.shouldExit;
+  constructor(config: SimulationConfig<TGlobalState, TAction, TAgentStates>) {
+    this.globalState = validate(
+      config.globalStateSchema,
+      config.initialGlobalState,
+      "globalState",
+      null
+    );
+    this.config = config;
+    this.seed = config.seed ?? Math.floor(Math.random() * 4294967296);
+    this.random = createRandom(this.seed);
+    this.replayLog = config.replay;
+    if (config.llmPool) {
+      this.llmPool =
+        "schedule" in config.llmPool
+          ? config.llmPool
+          : createLLMPool(config.llmPool);
+    }
 
-    this.exitPromise = new Promise<void>((resolve) => {
+    this.exitPromise = new Promise((resolve) => {
       this.resolveExit = resolve;
     });
 
     for (const agent of config.agents) {
-      this.agents.set(agent.id, agent);
-      if (agent.initialInternalState !== undefined) {
-        this.agentInternalStates.set(agent.id, agent.initialInternalState);
-      }
+      this.registerAgent(agent);
+    }
+
+    if (config.fromSnapshot) {
+      this.restoreSnapshot(config.fromSnapshot);
+    }
+
+    if (this.replayLog) {
+      this.globalState = this.replayLog.initialGlobalState;
+      this.agentInternalStates = new Map(
+        Object.entries(this.replayLog.initialAgentStates)
+      );
+    }
+
+    if (config.record) {
+      this.eventLog = {
+        initialGlobalState: this.globalState,
+        initialAgentStates: Object.fromEntries(this.agentInternalStates),
+        entries: [],
+      };
     }
   }
 
   /**
-   * Dispatch an action to all agents
+   * Dispatch an action to all agents, or to the agents selected by `options.to`
    */
-  async dispatch(action: TAction): Promise<void> {
+  async dispatch(
+    action: TAction,
+    options?: DispatchOptions<TAgentStates>
+  ): Promise<void> {
+    if (this.replayLog) {
+      throw new Error("Cannot dispatch actions while replaying an event log");
+    }
+
     if (this.hasExited) {
       return; // Don't process any more actions after exit
     }
 
-    this.actionQueue.push(action);
+    this.queueAction(action, null, options);
 
     if (!this.isProcessing) {
       await this.processActionQueue();
     }
   }
 
+  /**
+   * Add an agent and index the action types it subscribes to
+   */
+  private registerAgent(agent: Agent<TGlobalState, TAction, any, any>): void {
+    this.agents.set(agent.id, agent);
+    this.unstartedAgents.push(agent.id);
+    this.getAgentStats(agent.id);
+    if (agent.initialInternalState !== undefined) {
+      this.agentInternalStates.set(agent.id, agent.initialInternalState);
+    }
+
+    if (!agent.subscribes && !agent.handlers) {
+      this.unsubscribedAgents.add(agent.id);
+      return;
+    }
+
+    const actionTypes = new Set<string>([
+      ...(agent.subscribes ?? []),
+      ...Object.keys(agent.handlers ?? {}),
+    ]);
+    for (const actionType of actionTypes) {
+      const subscribers = this.subscriptions.get(actionType) ?? new Set();
+      subscribers.add(agent.id);
+      this.subscriptions.set(actionType, subscribers);
+    }
+  }
+
+  /**
+   * Remove an agent from the simulation and the subscription index
+   */
+  private unregisterAgent(agentId: string): void {
+    this.agents.delete(agentId);
+    this.unsubscribedAgents.delete(agentId);
+    for (const subscribers of this.subscriptions.values()) {
+      subscribers.delete(agentId);
+    }
+  }
+
+  /**
+   * Apply spawns and removals requested while an action was being processed
+   */
+  private applyAgentChanges(): void {
+    const changes = this.pendingAgentChanges;
+    this.pendingAgentChanges = [];
+
+    for (const change of changes) {
+      if (change.type === "spawn") {
+        this.registerAgent(change.agent);
+        this.applyChange({
+          type: "spawn",
+          agentId: change.agent.id,
+          state: change.agent.initialInternalState,
+        });
+      } else if (this.agents.has(change.agentId)) {
+        this.unregisterAgent(change.agentId);
+        this.applyChange({ type: "remove", agentId: change.agentId });
+      }
+    }
+  }
+
+  /**
+   * Process any pending actions, such as those restored from a snapshot
+   */
+  async run(): Promise<void> {
+    if (this.hasExited || this.isProcessing || this.replayLog) {
+      return;
+    }
+
+    await this.processActionQueue();
+  }
+
+  /**
+   * Stop processing after the action currently being handled. Actions
+   * dispatched while paused are queued until `resume()` or `step()`.
+   */
+  pause(): void {
+    this.isPaused = true;
+  }
+
+  /**
+   * Continue processing after `pause()`
+   */
+  async resume(): Promise<void> {
+    this.isPaused = false;
+    await this.run();
+  }
+
+  /**
+   * Process exactly one queued action (advancing the clock if only scheduled
+   * actions remain) and pause. Resolves to false if there was nothing to
+   * process.
+   */
+  async step(): Promise<boolean> {
+    if (this.isProcessing) {
+      throw new Error("Cannot step while actions are being processed");
+    }
+    if (this.hasExited || this.replayLog) {
+      return false;
+    }
+
+    const actionCount = this.actionCount;
+    this.isPaused = true;
+    this.stepRequested = true;
+    await this.processActionQueue();
+    return this.actionCount > actionCount;
+  }
+
+  /**
+   * End the simulation immediately: pending actions are dropped, exit hooks
+   * run, and `context.signal` is aborted so in-flight work (such as LLM
+   * calls) can be cancelled. Failures of handlers still running after the
+   * abort are ignored.
+   */
+  async abort(reason?: unknown): Promise<void> {
+    if (this.hasExited) {
+      return;
+    }
+
+    this.abortController.abort(reason);
+    await this.finish(this.lastAction, { type: "aborted", reason });
+  }
+
   /**
    * Process all queued actions
    */
   private async processActionQueue(): Promise<void> {
     this.isProcessing = true;
+    this.startedAt ??= Date.now();
+    this.startDeadline();
+    let lastAction = this.lastAction;
+
+    try {
+      await this.startAgents();
+
+      while (
+        this.canProcessNext() &&
+        (this.actionQueue.length > 0 || this.advanceClock())
+      ) {
+        const next = this.actionQueue.shift();
+        if (!next) {
+          // Middleware dropped every action due on this tick, which still
+          // counts toward `maxActions` so a recurring action can't spin forever
+          this.droppedTicks++;
+          const exitReason = this.getLimitReached();
+          if (exitReason) {
+            await this.finish(lastAction, exitReason);
+            break;
+          }
+          await new Promise((resolve) => setTimeout(resolve, 0));
+          continue;
+        }
+        const { action, dispatchedBy, to } = next;
+        lastAction = action;
+        this.eventLog?.entries.push({
+          action,
+          dispatchedBy,
+          tick: this.tick,
+          changes: [],
+        });
+
+        if (this.config.onBeforeAction) {
+          await this.config.onBeforeAction(
+            action,
+            this.createSimulationContext()
+          );
+          if (this.hasExited) {
+            break; // Aborted while the hook was running
+          }
+        }
+
+        // Send action to its recipients
+        const recipients = this.getRecipients(action, to);
+        if (recipients.length === 0) {
+          this.trackUnhandled(action);
+        }
+
+        await this.runRecipients(recipients, action);
+        if (this.hasExited) {
+          break; // Aborted while agents were handling the action
+        }
+        this.applyAgentChanges();
+
+        if (this.config.onAfterAction) {
+          await this.config.onAfterAction(
+            action,
+            this.createSimulationContext()
+          );
+        }
+        if (this.hasExited) {
+          break;
+        }
+
+        if (await this.completeAction(action, dispatchedBy)) {
+          break;
+        }
 
-    while (this.actionQueue.length > 0) {
-      const action = this.actionQueue.shift()!;
+        await this.startAgents();
+        if (this.hasExited) {
+          break;
+        }
 
-      // Send action to all agents
-      const promises: Promise<void>[] = [];
-      for (const [agentId, agent] of this.agents) {
-        const context = this.createContext(agentId);
-        promises.push(Promise.resolve(agent.onAction(action, context)));
+        // Add a small delay to prevent infinite synchronous loops
+        // and allow setTimeout/Promise resolution in calling code
+        if (this.actionQueue.length > 0 || this.scheduled.length > 0) {
+          await new Promise((resolve) => setTimeout(resolve, 0));
+        }
       }
+    } catch (error) {
+      // A fail-fast error, or a failing hook, ends the run before it is surfaced
+      await this.failFast(error, lastAction);
+      throw error;
+    } finally {
+      this.isProcessing = false;
+    }
+  }
 
-      await Promise.all(promises);
+  /**
+   * Start the `maxDurationMs` timer, which ends the run even while a handler
+   * hangs. In-flight handlers are signalled through `context.signal`.
+   */
+  private startDeadline(): void {
+    const { maxDurationMs } = this.config;
+    if (maxDurationMs === undefined || this.deadline || this.hasExited) {
+      return;
+    }
 
-      // Increment action count and check exit condition
-      this.actionCount++;
-      const exitContext: ExitContext<TGlobalState, TAction> = {
-        globalState: this.globalState,
-        agentStates: this.getAllAgentStates(),
-        lastAction: action,
-        actionCount: this.actionCount,
-      };
+    this.deadline = setTimeout(() => {
+      this.abortController.abort();
+      this.finish(this.lastAction, { type: "maxDuration" }).catch(() => {
+        // The run has ended even though an exit hook failed
+      });
+    }, this.startedAt! + maxDurationMs - Date.now());
+  }
 
-      if (this.shouldExit(exitContext)) {
-        // Clear remaining actions and exit
-        this.actionQueue.length = 0;
-        this.hasExited = true;
-        this.resolveExit();
-        break;
+  /**
+   * End the run after a fail-fast agent error or a failure in the
+   * simulation's own hooks or middleware
+   */
+  private async failFast(
+    error: unknown,
+    lastAction: TAction | undefined
+  ): Promise<void> {
+    if (this.hasExited) {
+      return;
+    }
+
+    this.applyAgentChanges();
+    const agentError =
+      this.errors.find((failure) => failure.error === error) ??
+      this.recordError(null, lastAction, error, 1);
+    await this.finish(lastAction, {
+      type: error instanceof ActionTimeoutError ? "actionTimeout" : "error",
+      error: agentError,
+    });
+  }
+
+  /**
+   * Deliver an action to its recipients according to the execution mode
+   */
+  private async runRecipients(
+    recipients: Array<[string, Agent<TGlobalState, TAction, any, any>]>,
+    action: TAction
+  ): Promise<void> {
+    const mode = this.config.executionMode ?? "parallel";
+
+    if (mode === "parallel") {
+      await Promise.all(
+        recipients.map(([agentId, agent]) =>
+          this.invokeAgent(agentId, agent, action)
+        )
+      );
+      return;
+    }
+
+    const ordered =
+      mode === "priority"
+        ? [...recipients].sort(
+            ([, a], [, b]) => (b.priority ?? 0) - (a.priority ?? 0)
+          )
+        : mode === "random"
+        ? this.random.shuffle(recipients)
+        : recipients;
+
+    for (const [agentId, agent] of ordered) {
+      await this.invokeAgent(agentId, agent, action);
+    }
+  }
+
+  /**
+   * Whether the processing loop may take another action: always when
+   * running, and once per `step()` when paused
+   */
+  private canProcessNext(): boolean {
+    if (!this.isPaused) {
+      return true;
+    }
+    const canStep = this.stepRequested;
+    this.stepRequested = false;
+    return canStep;
+  }
+
+  /**
+   * Move the clock to the next scheduled tick and queue the actions due then,
+   * rescheduling recurring ones. Returns false if nothing is scheduled.
+   */
+  private advanceClock(): boolean {
+    const next = this.scheduled[0];
+    if (!next) {
+      return false;
+    }
+
+    this.tick = Math.max(this.tick, next.at);
+    const due = this.scheduled.filter(({ at }) => at <= this.tick);
+    this.scheduled = this.scheduled.filter(({ at }) => at > this.tick);
+
+    for (const { id, action, dispatchedBy, to, priority, at, every } of due) {
+      this.applyMiddleware({ action, dispatchedBy, to, priority });
+      if (every !== undefined) {
+        this.insertScheduled({
+          id,
+          action,
+          dispatchedBy,
+          to,
+          priority,
+          at: at + every,
+          every,
+        });
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Add an action to the schedule, keeping it ordered by tick and then by
+   * insertion order
+   */
+  private insertScheduled(entry: ScheduledAction<TAction>): void {
+    const index = this.scheduled.findIndex(({ at }) => at > entry.at);
+    if (index === -1) {
+      this.scheduled.push(entry);
+    } else {
+      this.scheduled.splice(index, 0, entry);
+    }
+  }
+
+  /**
+   * Add an action to the queue, keeping it ordered by priority and then by
+   * insertion order
+   */
+  private insertQueued(entry: QueuedAction<TAction>): void {
+    const priority = entry.priority ?? 0;
+    const index = this.actionQueue.findIndex(
+      (queued) => (queued.priority ?? 0) < priority
+    );
+    if (index === -1) {
+      this.actionQueue.push(entry);
+    } else {
+      this.actionQueue.splice(index, 0, entry);
+    }
+  }
+
+  /**
+   * Pass an action through the configured middleware, validating and
+   * queueing whatever reaches the end of the chain. Actions passed on after
+   * the chain has returned (e.g. from a timer) start processing themselves.
+   */
+  private applyMiddleware(entry: QueuedAction<TAction>): void {
+    const middleware = this.config.middleware ?? [];
+    let isDeferred = false;
+    const run = (index: number, action: TAction): void => {
+      if (index === middleware.length) {
+        if (this.hasExited) {
+          return;
+        }
+        this.insertQueued({
+          ...entry,
+          action: validate(
+            this.config.actionSchema,
+            action,
+            "action",
+            entry.dispatchedBy
+          ),
+        });
+        if (isDeferred && !this.isProcessing) {
+          this.processInBackground();
+        }
+        return;
       }
+      middleware[index]!(action, (next) => run(index + 1, next), this);
+    };
+    run(0, entry.action);
+    isDeferred = true;
+  }
+
+  /**
+   * Queue an action, or schedule it on the clock if it has a `delay`
+   */
+  private queueAction(
+    action: TAction,
+    dispatchedBy: string | null,
+    options: DispatchOptions<TAgentStates> = {}
+  ): void {
+    const { to, priority, delay } = options;
+    if (delay !== undefined && !(delay >= 0)) {
+      throw new Error("`delay` must be a non-negative number of ticks");
+    }
 
-      // Add a small delay to prevent infinite synchronous loops
-      // and allow setTimeout/Promise resolution in calling code
-      if (this.actionQueue.length > 0) {
-        await new Promise((resolve) => setTimeout(resolve, 0));
+    if (delay) {
+      this.addScheduled(action, dispatchedBy, {
+        to,
+        priority,
+        at: this.tick + delay,
+      });
+    } else {
+      this.applyMiddleware({
+        action,
+        dispatchedBy,
+        to: to as ActionTarget | undefined,
+        priority,
+      });
+    }
+  }
+
+  /**
+   * Validate schedule options and add the action to the schedule
+   */
+  private addScheduled(
+    action: TAction,
+    dispatchedBy: string | null,
+    options: ScheduleOptions<TAgentStates>
+  ): string {
+    const { at, every, to, priority } = options;
+    if (at === undefined && every === undefined) {
+      throw new Error("Scheduled actions need an `at` tick or an `every` interval");
+    }
+    if (every !== undefined && !(every > 0)) {
+      throw new Error("`every` must be a positive number of ticks");
+    }
+
+    const id = `schedule-${this.nextScheduleId++}`;
+    this.insertScheduled({
+      id,
+      action: validate(this.config.actionSchema, action, "action", dispatchedBy),
+      dispatchedBy,
+      to: to as ActionTarget | undefined,
+      priority,
+      at: at ?? this.tick + every!,
+      every,
+    });
+    return id;
+  }
+
+  /**
+   * Run the simulation's `onStart` hook the first time processing begins,
+   * then `onStart` for any agents that haven't started yet
+   */
+  private async startAgents(): Promise<void> {
+    if (!this.hasStarted) {
+      this.hasStarted = true;
+      if (this.config.onStart) {
+        await this.config.onStart(this.createSimulationContext());
       }
     }
 
-    this.isProcessing = false;
+    const agentIds = this.unstartedAgents;
+    this.unstartedAgents = [];
+
+    const promises: Promise<void>[] = [];
+    for (const agentId of agentIds) {
+      const agent = this.agents.get(agentId);
+      if (agent?.onStart) {
+        promises.push(this.startAgent(agentId, agent));
+      }
+    }
+
+    await Promise.all(promises);
+  }
+
+  /**
+   * Run an agent's `onStart` hook. Failures go through the agent's error
+   * policy without being retried, so a retry policy's fallback applies.
+   */
+  private async startAgent(
+    agentId: string,
+    agent: Agent<TGlobalState, TAction, any, any>
+  ): Promise<void> {
+    const context = this.createContext(agentId);
+    try {
+      await agent.onStart?.(context);
+    } catch (error) {
+      await this.handleAgentError(agentId, agent, undefined, error, 1, context);
+    }
+  }
+
+  /**
+   * Deliver an action to one agent, wrapped in its lifecycle hooks and
+   * error policy. Only rejects when the policy is fail-fast.
+   */
+  private async invokeAgent(
+    agentId: string,
+    agent: Agent<TGlobalState, TAction, any, any>,
+    action: TAction
+  ): Promise<void> {
+    // The hooks and every handler attempt share the versions seen, so a hook
+    // doesn't conflict with an update its own handler made
+    const seen = this.getSeenVersions(agentId);
+    const context = this.createContext(agentId, action, undefined, seen);
+    const stats = this.getAgentStats(agentId);
+    const startedAt = Date.now();
+    stats.actionsHandled++;
+    const policy = agent.errorPolicy ?? this.config.errorPolicy ?? "fail-fast";
+    const retry = typeof policy === "object" && "retry" in policy ? policy : undefined;
+    const timeoutMs = agent.actionTimeoutMs ?? this.config.actionTimeoutMs;
+    // A handler only ever receives actions of its own type
+    const handler = agent.handlers?.[
+      getActionType(action) as ActionType<TAction>
+    ] as ActionHandler<TGlobalState, TAction, TAgentStates> | undefined;
+    let attempts = 0;
+
+    try {
+      if (agent.onBeforeAction) {
+        await agent.onBeforeAction(action, context);
+      }
+
+      while (true) {
+        attempts++;
+        // Each attempt can be abandoned on its own, e.g. when it times out
+        const attempt = new AbortController();
+        const attemptContext = this.createContext(
+          agentId,
+          action,
+          attempt.signal,
+          seen
+        );
+        try {
+          await withTimeout(
+            handler
+              ? handler(action, attemptContext)
+              : agent.onAction?.(action, attemptContext),
+            timeoutMs,
+            agentId
+          );
+          break;
+        } catch (error) {
+          attempt.abort(error);
+          if (!retry || attempts > retry.retry || this.abortController.signal.aborted) {
+            throw error;
+          }
+          const delay =
+            (retry.backoffMs ?? 0) *
+            (retry.backoffFactor ?? 2) ** (attempts - 1);
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+      }
+
+      if (agent.onAfterAction) {
+        await agent.onAfterAction(action, context);
+      }
+    } catch (error) {
+      await this.handleAgentError(
+        agentId,
+        agent,
+        action,
+        error,
+        Math.max(attempts, 1),
+        context
+      );
+    } finally {
+      stats.busyMs += Date.now() - startedAt;
+    }
+  }
+
+  /**
+   * Record an agent failure, call the `onError` hooks and apply the agent's
+   * error policy (after retries). Rethrows the error under fail-fast.
+   */
+  private async handleAgentError(
+    agentId: string,
+    agent: Agent<TGlobalState, TAction, any, any>,
+    action: TAction | undefined,
+    error: unknown,
+    attempts: number,
+    context: Context<TGlobalState, TAction, any, TAgentStates>
+  ): Promise<void> {
+    if (this.abortController.signal.aborted) {
+      return; // Most likely cancelled through `context.signal`
+    }
+    if (error instanceof LLMBudgetError) {
+      return; // The run ends with `llmBudget` once the action completes
+    }
+
+    this.recordError(agentId, action, error, attempts);
+
+    try {
+      if (agent.onError) {
+        await agent.onError(error, action, context);
+      }
+      if (this.config.onError) {
+        await this.config.onError(error, { action, agentId });
+      }
+    } catch (hookError) {
+      // A failing error hook ends the run, whatever the policy
+      this.recordError(agentId, action, hookError, 1);
+      throw hookError;
+    }
+
+    const policy = agent.errorPolicy ?? this.config.errorPolicy ?? "fail-fast";
+    const outcome: ErrorPolicy<TAction> =
+      typeof policy === "object" && "retry" in policy
+        ? policy.fallback ?? "fail-fast"
+        : policy;
+    if (outcome === "fail-fast") {
+      throw error;
+    }
+    if (typeof outcome === "object" && "dispatch" in outcome) {
+      this.enqueue(outcome.dispatch(error, { action, agentId }), agentId);
+    }
+  }
+
+  /**
+   * Add a failure to `getErrors()` and the agent's stats, and emit it
+   */
+  private recordError(
+    agentId: string | null,
+    action: TAction | undefined,
+    error: unknown,
+    attempts: number
+  ): AgentError<TAction> {
+    const agentError: AgentError<TAction> = {
+      agentId,
+      action,
+      error,
+      message: error instanceof Error ? error.message : String(error),
+      attempts,
+    };
+    this.errors.push(agentError);
+    if (agentId !== null) {
+      this.getAgentStats(agentId).errors++;
+    }
+    this.emit("error", agentError);
+    return agentError;
+  }
+
+  /**
+   * LLM access for agent contexts, through the configured provider, cache
+   * and pool, recording usage against the agent and action
+   */
+  private createLLMClient(
+    agentId: string,
+    action: TAction | undefined,
+    signal: AbortSignal
+  ): LLMClient {
+    const actionType = action === undefined ? undefined : getActionType(action);
+
+    return {
+      generateObject: async (schema, prompt, options = {}) => {
+        const provider = options.provider ?? this.config.llm;
+        if (!provider) {
+          throw new Error(
+            "No LLM provider configured; set `llm` in the simulation config"
+          );
+        }
+
+        const { system } = options;
+        const cache = this.config.llmCache;
+        let startedAt = Date.now();
+        const record = (
+          call: Pick<LLMCall, "promptTokens" | "completionTokens" | "cost" | "cached">
+        ) =>
+          this.recordLLMCall({
+            agentId,
+            actionType,
+            model: provider.id,
+            latencyMs: Date.now() - startedAt,
+            ...call,
+          });
+        let cacheKey: string | undefined;
+        if (cache) {
+          const request = {
+            model: provider.id,
+            system,
+            prompt,
+            schema,
+            seed: this.seed,
+          };
+          const call = getCallKey(request);
+          const occurrence = this.llmCallCounts.get(call) ?? 0;
+          this.llmCallCounts.set(call, occurrence + 1);
+          cacheKey = getCacheKey({ ...request, occurrence });
+
+          const entry = await cache.get(cacheKey);
+          const cached = entry && schema.safeParse(entry.object);
+          if (cached?.success) {
+            record({ promptTokens: 0, completionTokens: 0, cost: 0, cached: true });
+            return cached.data;
+          }
+        }
+
+        const call = async () => {
+          // Checked as the call starts, so calls queued in a pool stop too
+          if (this.isOverLLMBudget()) {
+            throw new LLMBudgetError();
+          }
+          startedAt = Date.now();
+          return provider.generateObject({ schema, prompt, system, signal });
+        };
+        // Pooled calls wait their turn; latency is measured from the start
+        const response = await (this.llmPool
+          ? this.llmPool.schedule(
+              { simulationId: this.id, agentId },
+              Math.ceil(`${system ?? ""}${prompt}`.length / 4),
+              call,
+              signal
+            )
+          : call());
+        if (cache) {
+          await cache.set(cacheKey!, response);
+        }
+
+        const { promptTokens = 0, completionTokens = 0 } = response.usage ?? {};
+        const pricing = this.config.llmPricing?.[provider.id];
+        record({
+          promptTokens,
+          completionTokens,
+          cost: pricing
+            ? (promptTokens * pricing.promptPerMillion +
+                completionTokens * pricing.completionPerMillion) /
+              1_000_000
+            : 0,
+          cached: false,
+        });
+        return response.object;
+      },
+    };
+  }
+
+  /**
+   * Add an LLM call to the run's usage totals and notify listeners
+   */
+  private recordLLMCall(call: LLMCall): void {
+    const { byAgent, byActionType } = this.llmUsage;
+    const totals = [
+      this.llmUsage.total,
+      (byAgent[call.agentId] ??= createUsage()),
+      ...(call.actionType === undefined
+        ? []
+        : [(byActionType[call.actionType] ??= createUsage())]),
+    ];
+    for (const usage of totals) {
+      usage.calls++;
+      usage.cachedCalls += call.cached ? 1 : 0;
+      usage.promptTokens += call.promptTokens;
+      usage.completionTokens += call.completionTokens;
+      usage.latencyMs += call.latencyMs;
+      usage.cost += call.cost;
+    }
+    this.emit("llmCall", call);
+  }
+
+  /**
+   * An agent's random stream, created on first use from the simulation seed
+   */
+  private getAgentRandom(agentId: string): Random {
+    let random = this.agentRandoms.get(agentId);
+    if (!random) {
+      random = createRandom(deriveSeed(this.seed, agentId));
+      this.agentRandoms.set(agentId, random);
+    }
+    return random;
+  }
+
+  /**
+   * Statistics for an agent, created on first use and kept after removal
+   */
+  private getAgentStats(agentId: string): AgentStats {
+    let stats = this.agentStats.get(agentId);
+    if (!stats) {
+      stats = { actionsHandled: 0, errors: 0, stateChanges: 0, busyMs: 0 };
+      this.agentStats.set(agentId, stats);
+    }
+    return stats;
+  }
+
+  /**
+   * Resolve an action target to the subscribed agents that should receive
+   * it, in registration order
+   */
+  private getRecipients(
+    action: TAction,
+    to: ActionTarget | undefined
+  ): Array<[string, Agent<TGlobalState, TAction, any, any>]> {
+    const actionType = getActionType(action);
+    const subscribers =
+      actionType === undefined ? undefined : this.subscriptions.get(actionType);
+    const agents = Array.from(this.agents).filter(
+      ([agentId]) =>
+        actionType === undefined ||
+        this.unsubscribedAgents.has(agentId) ||
+        subscribers?.has(agentId)
+    );
+
+    if (to === undefined) {
+      return agents;
+    }
+
+    if (typeof to === "string") {
+      return agents.filter(([agentId]) => agentId === to);
+    }
+
+    if (Array.isArray(to)) {
+      return agents.filter(([agentId]) => to.includes(agentId));
+    }
+
+    if (typeof to === "function") {
+      return agents.filter(([agentId, agent]) =>
+        to({
+          id: agentId,
+          internalState: this.agentInternalStates.get(agentId),
+          tags: agent.tags ?? [],
+        })
+      );
+    }
+
+    return agents.filter(([, agent]) => agent.tags?.includes(to.tag));
+  }
+
+  /**
+   * Count an action that no agent received
+   */
+  private trackUnhandled(action: TAction): void {
+    const actionType = getActionType(action) ?? "(untyped)";
+    this.unhandledActions.set(
+      actionType,
+      (this.unhandledActions.get(actionType) ?? 0) + 1
+    );
+  }
+
+  /**
+   * Increment action count and check exit condition. Returns true if the
+   * simulation exited.
+   */
+  private async completeAction(
+    action: TAction,
+    dispatchedBy: string | null
+  ): Promise<boolean> {
+    this.actionCount++;
+    this.lastAction = action;
+    this.emit("action", {
+      action,
+      dispatchedBy,
+      tick: this.tick,
+      actionCount: this.actionCount,
+    });
+
+    const exit = this.config.shouldExit(this.createExitContext(action));
+    const exitReason: ExitReason<TAction> | undefined = exit
+      ? {
+          type: "shouldExit",
+          ...(typeof exit === "string" && { condition: exit }),
+        }
+      : this.getLimitReached();
+    if (exitReason) {
+      await this.finish(action, exitReason);
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Check the `maxActions`, `maxDurationMs` and `llmBudget` safety limits
+   */
+  private getLimitReached(): ExitReason<TAction> | undefined {
+    const { maxActions, maxDurationMs } = this.config;
+    if (
+      maxActions !== undefined &&
+      this.actionCount + this.droppedTicks >= maxActions
+    ) {
+      return { type: "maxActions" };
+    }
+    if (
+      maxDurationMs !== undefined &&
+      this.startedAt !== undefined &&
+      Date.now() - this.startedAt >= maxDurationMs
+    ) {
+      return { type: "maxDuration" };
+    }
+    if (this.isOverLLMBudget()) {
+      return { type: "llmBudget" };
+    }
+    return undefined;
+  }
+
+  /**
+   * Whether LLM spending so far exceeds `llmBudget`
+   */
+  private isOverLLMBudget(): boolean {
+    const { llmBudget } = this.config;
+    const { total } = this.llmUsage;
+    return (
+      (llmBudget?.maxCost !== undefined && total.cost > llmBudget.maxCost) ||
+      (llmBudget?.maxTokens !== undefined &&
+        total.promptTokens + total.completionTokens > llmBudget.maxTokens)
+    );
+  }
+
+  /**
+   * Build the context passed to `shouldExit`, or to `onExit` (where the run
+   * may have ended before any action)
+   */
+  private createExitContext<TLastAction extends TAction | undefined>(
+    lastAction: TLastAction
+  ): Omit<ExitContext<TGlobalState, TAction, TAgentStates>, "lastAction"> & {
+    lastAction: TLastAction;
+  } {
+    return {
+      globalState: this.globalState,
+      agentStates: this.getAllAgentStates(),
+      lastAction,
+      actionCount: this.actionCount,
+      tick: this.tick,
+      errors: [...this.errors],
+    };
+  }
+
+  /**
+   * Clear remaining actions, run exit hooks and resolve the exit promise.
+   * Agent hooks are skipped during replay since agents never ran.
+   */
+  private async finish(
+    lastAction: TAction | undefined,
+    exitReason: ExitReason<TAction>
+  ): Promise<void> {
+    if (this.hasExited) {
+      return;
+    }
+
+    this.actionQueue.length = 0;
+    this.scheduled = [];
+    this.hasExited = true;
+    this.exitReason = exitReason;
+    clearTimeout(this.deadline);
+    if (this.eventLog) {
+      this.eventLog.exitReason = serializeExitReason(exitReason);
+    }
+
+    // The run has ended even if an exit hook fails
+    try {
+      if (!this.replayLog) {
+        const promises: Promise<void>[] = [];
+        for (const [agentId, agent] of this.agents) {
+          if (agent.onExit) {
+            promises.push(
+              Promise.resolve(agent.onExit(this.createContext(agentId)))
+            );
+          }
+        }
+        await Promise.all(promises);
+      }
+
+      if (this.config.onExit) {
+        await this.config.onExit(this.createExitContext(lastAction));
+      }
+    } finally {
+      this.emit("exit", this.createExitContext(lastAction));
+      this.resolveExit(this.createResult());
+    }
+  }
+
+  /**
+   * Build the result resolved by `exit()`
+   */
+  private createResult(): SimulationResult<TGlobalState, TAction, TAgentStates> {
+    return {
+      globalState: this.globalState,
+      agentStates: this.getAllAgentStates(),
+      actionCount: this.actionCount,
+      tick: this.tick,
+      durationMs: this.startedAt === undefined ? 0 : Date.now() - this.startedAt,
+      exitReason: this.exitReason!,
+      agentStats: Object.fromEntries(
+        Array.from(this.agentStats, ([agentId, stats]) => [agentId, { ...stats }])
+      ),
+      errors: [...this.errors],
+      llmUsage: structuredClone(this.llmUsage),
+    };
+  }
+
+  /**
+   * Apply a state change and append it to the event log when recording.
+   * Changes made outside of action processing (e.g. from a setTimeout) are
+   * attributed to the most recently processed action.
+   */
+  private applyChange(change: StateChange<TGlobalState>): void {
+    const key = change.type === "global" ? "global" : `internal:${change.agentId}`;
+    this.stateVersions.set(key, {
+      version: this.getStateVersion(key) + 1,
+      changedBy: change.agentId,
+    });
+
+    if (change.type === "global" || change.type === "internal") {
+      this.getAgentStats(change.agentId).stateChanges++;
+    }
+
+    if (change.type === "global") {
+      this.globalState = change.state;
+    } else if (change.type === "remove") {
+      this.agentInternalStates.delete(change.agentId);
+    } else if (change.type === "internal" || change.state !== undefined) {
+      this.agentInternalStates.set(change.agentId, change.state);
+    }
+
+    if (this.eventLog) {
+      const { entries } = this.eventLog;
+      // Changes before the first action (from `onStart` hooks) get their own list
+      (entries[entries.length - 1]?.changes ??
+        (this.eventLog.startChanges ??= [])
+      ).push(change);
+    }
+    this.emit("stateChange", { change, tick: this.tick });
+  }
+
+  /**
+   * Call the listeners for an event. Listener errors are logged rather than
+   * allowed to affect the run.
+   */
+  private emit<K extends SimulationEventType>(
+    event: K,
+    payload: SimulationEventMap<TGlobalState, TAction, TAgentStates>[K]
+  ): void {
+    for (const listener of this.listeners.get(event) ?? []) {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`Error in "${event}" listener:`, error);
+      }
+    }
+  }
+
+  /**
+   * Number of changes made to global state (`"global"`) or to an agent's
+   * internal state (`"internal:<agentId>"`)
+   */
+  private getStateVersion(key: string): number {
+    return this.stateVersions.get(key)?.version ?? 0;
   }
 
   /**
-   * Create context for an agent
+   * Current versions of the global state and an agent's internal state, as
+   * seen by a new context for conflict detection
    */
-  private createContext(agentId: string): Context<TGlobalState, TAction> {
+  private getSeenVersions(agentId: string): { global: number; internal: number } {
+    return {
+      global: this.getStateVersion("global"),
+      internal: this.getStateVersion(`internal:${agentId}`),
+    };
+  }
+
+  /**
+   * Report an update made without seeing the latest change to that state
+   */
+  private reportConflict(conflict: StateConflict<TAction>): void {
+    const { detectConflicts } = this.config;
+    if (typeof detectConflicts === "function") {
+      detectConflicts(conflict);
+    } else if (detectConflicts) {
+      console.warn(
+        `Agent "${conflict.agentId}" updated ${conflict.type} state without seeing a change made by "${conflict.changedBy}"`
+      );
+    }
+  }
+
+  /**
+   * Load state from a snapshot, copying it so the snapshot can be reused
+   */
+  private restoreSnapshot(
+    snapshot: SimulationSnapshot<TGlobalState, TAction>
+  ): void {
+    const copy = structuredClone(snapshot);
+    for (const agentId of Array.from(this.agents.keys())) {
+      if (!copy.agentIds.includes(agentId)) {
+        this.unregisterAgent(agentId);
+      }
+    }
+
+    this.globalState = copy.globalState;
+    this.agentInternalStates = new Map(Object.entries(copy.agentStates));
+    this.actionQueue = copy.actionQueue;
+    this.actionCount = copy.actionCount;
+    this.droppedTicks = copy.droppedTicks ?? 0;
+    this.tick = copy.tick;
+    this.scheduled = copy.scheduled;
+    this.nextScheduleId =
+      Math.max(0, ...copy.scheduled.map(({ id }) => Number(id.split("-")[1]) || 0)) + 1;
+
+    if (copy.hasStarted) {
+      this.hasStarted = true;
+    }
+    if (copy.startedAgentIds) {
+      this.unstartedAgents = this.unstartedAgents.filter(
+        (agentId) => !copy.startedAgentIds!.includes(agentId)
+      );
+    }
+    if (copy.errors) {
+      this.errors = copy.errors;
+    }
+    for (const [agentId, stats] of Object.entries(copy.agentStats ?? {})) {
+      this.agentStats.set(agentId, stats);
+    }
+    if (copy.unhandledActions) {
+      this.unhandledActions = new Map(Object.entries(copy.unhandledActions));
+    }
+
+    if (copy.llmCallCounts) {
+      this.llmCallCounts = new Map(Object.entries(copy.llmCallCounts));
+    }
+    if (copy.llmUsage) {
+      this.llmUsage = copy.llmUsage;
+    }
+
+    if (copy.random) {
+      this.seed = copy.random.seed;
+      this.random = createRandom(copy.random.simulation);
+      this.agentRandoms = new Map(
+        Object.entries(copy.random.agents).map(([agentId, state]) => [
+          agentId,
+          createRandom(state),
+        ])
+      );
+    }
+
+    if (copy.hasExited) {
+      this.hasExited = true;
+      this.exitReason = copy.exitReason ?? { type: "shouldExit" };
+      this.resolveExit(this.createResult());
+    }
+  }
+
+  /**
+   * Queue an action dispatched from inside the simulation, starting
+   * processing if it isn't already running. Ignored after exit.
+   */
+  private enqueue(
+    action: TAction,
+    dispatchedBy: string | null,
+    options?: DispatchOptions<TAgentStates>
+  ): void {
+    if (this.hasExited) {
+      return;
+    }
+
+    this.queueAction(action, dispatchedBy, options);
+    if (!this.isProcessing) {
+      this.processInBackground();
+    }
+  }
+
+  /**
+   * Process the queue without a caller to surface failures to
+   */
+  private processInBackground(): void {
+    this.processActionQueue().catch(() => {
+      // The run has ended with the failure as its exit reason
+    });
+  }
+
+  /**
+   * Create context for simulation-level hooks
+   */
+  private createSimulationContext(): SimulationContext<
+    TGlobalState,
+    TAction,
+    TAgentStates
+  > {
     return {
       globalState: this.globalState,
-      dispatch: (action: TAction) => {
-        this.actionQueue.push(action);
-        if (!this.isProcessing) {
-          this.processActionQueue();
+      agentStates: this.getAllAgentStates(),
+      actionCount: this.actionCount,
+      tick: this.tick,
+      dispatch: (action, options) => this.enqueue(action, null, options),
+      schedule: (action, options) => this.addScheduled(action, null, options),
+      random: this.random,
+    };
+  }
+
+  /**
+   * Create context for an agent. Contexts for a handler attempt stop
+   * applying state updates, dispatches, schedules and agent changes once the
+   * attempt is abandoned.
+   */
+  private createContext(
+    agentId: string,
+    action?: TAction,
+    attempt?: AbortSignal,
+    seen = this.getSeenVersions(agentId)
+  ): Context<TGlobalState, TAction, any, TAgentStates> {
+    const internalKey = `internal:${agentId}`;
+
+    // Handlers still running when the run ends can no longer change state,
+    // but `onExit` hooks, whose contexts are created after exit, can
+    const createdAfterExit = this.hasExited;
+
+    const isAbandoned = () =>
+      (this.hasExited && !createdAfterExit) || attempt?.aborted === true;
+    const signal = attempt
+      ? AbortSignal.any([this.abortController.signal, attempt])
+      : this.abortController.signal;
+
+    const update = (type: "global" | "internal", change: () => void) => {
+      if (isAbandoned()) {
+        return;
+      }
+      const key = type === "global" ? "global" : internalKey;
+      const latest = this.stateVersions.get(key);
+      if (latest && latest.version !== seen[type]) {
+        this.reportConflict({ type, agentId, changedBy: latest.changedBy, action });
+      }
+      change();
+      seen[type] = this.getStateVersion(key);
+    };
+
+    return {
+      globalState: this.globalState,
+      getGlobalState: () => {
+        seen.global = this.getStateVersion("global");
+        return this.globalState;
+      },
+      dispatch: (action: TAction, options?: DispatchOptions<TAgentStates>) => {
+        if (!isAbandoned()) {
+          this.enqueue(action, agentId, options);
         }
       },
       updateGlobalState: (updater: (state: TGlobalState) => TGlobalState) => {
-        this.globalState = updater(this.globalState);
+        update("global", () =>
+          this.applyChange({
+            type: "global",
+            agentId,
+            state: validate(
+              this.config.globalStateSchema,
+              updater(this.globalState),
+              "globalState",
+              agentId
+            ),
+          })
+        );
       },
       updateInternalState: (updater: (state: any) => any) => {
-        const currentState = this.agentInternalStates.get(agentId);
-        const newState = updater(currentState);
-        this.agentInternalStates.set(agentId, newState);
+        update("internal", () =>
+          this.applyChange({
+            type: "internal",
+            agentId,
+            state: updater(this.agentInternalStates.get(agentId)),
+          })
+        );
       },
       internalState: this.agentInternalStates.get(agentId),
-      allAgents: Array.from(this.agents.keys()).map((id) => ({
-        id,
-        internalState: this.agentInternalStates.get(id),
-      })),
+      getInternalState: () => {
+        seen.internal = this.getStateVersion(internalKey);
+        return this.agentInternalStates.get(agentId);
+      },
+      allAgents: Array.from(this.agents.keys()).map(
+        (id) =>
+          ({
+            id,
+            internalState: this.agentInternalStates.get(id),
+          } as AgentInfo<TAgentStates>)
+      ),
+      spawnAgent: (agent) => {
+        if (!isAbandoned()) {
+          this.spawnAgent(agent);
+        }
+      },
+      removeAgent: (id) => {
+        if (!isAbandoned()) {
+          this.removeAgent(id);
+        }
+      },
+      tick: this.tick,
+      signal,
+      random: this.getAgentRandom(agentId),
+      llm: this.createLLMClient(agentId, action, signal),
+      schedule: (action, options) =>
+        isAbandoned()
+          ? `schedule-${this.nextScheduleId++}` // Never added to the schedule
+          : this.addScheduled(action, agentId, options),
+      unschedule: (scheduleId) => {
+        if (!isAbandoned()) {
+          this.unschedule(scheduleId);
+        }
+      },
     };
   }
 
+  /**
+   * Schedule an action on the simulation clock, e.g. `{ at: 40 }` or
+   * `{ every: 5 }`. Scheduled actions are dispatched once the queue is empty
+   * and the clock has advanced to their tick. Returns the schedule id.
+   */
+  schedule(action: TAction, options: ScheduleOptions<TAgentStates>): string {
+    return this.addScheduled(action, null, options);
+  }
+
+  /**
+   * Cancel a scheduled action
+   */
+  unschedule(scheduleId: string): void {
+    this.scheduled = this.scheduled.filter(({ id }) => id !== scheduleId);
+  }
+
+  /**
+   * Get the current simulation clock tick
+   */
+  getTick(): number {
+    return this.tick;
+  }
+
+  /**
+   * Add an agent at runtime. While an action is being processed, the agent
+   * joins once that action finishes.
+   */
+  spawnAgent(agent: Agent<TGlobalState, TAction, any, any>): void {
+    const isPending = this.pendingAgentChanges.some(
+      (change) => change.type === "spawn" && change.agent.id === agent.id
+    );
+    if (this.agents.has(agent.id) || isPending) {
+      throw new Error(`Agent "${agent.id}" already exists`);
+    }
+
+    this.pendingAgentChanges.push({ type: "spawn", agent });
+    if (!this.isProcessing) {
+      this.applyAgentChanges();
+    }
+  }
+
+  /**
+   * Remove an agent and its internal state at runtime. While an action is
+   * being processed, the agent leaves once that action finishes.
+   */
+  removeAgent(agentId: string): void {
+    this.pendingAgentChanges.push({ type: "remove", agentId });
+    if (!this.isProcessing) {
+      this.applyAgentChanges();
+    }
+  }
+
   /**
    * Get current global state
    */
@@ -135,19 +1541,21 @@ export class EventSimulation<TGlobalState, TAction> {
   /**
    * Get agent's internal state
    */
-  getAgentInternalState(agentId: string): any {
+  getAgentInternalState<K extends keyof TAgentStates & string>(
+    agentId: K
+  ): TAgentStates[K] {
     return this.agentInternalStates.get(agentId);
   }
 
   /**
    * Get all agent internal states
    */
-  getAllAgentStates(): { [agentId: string]: any } {
-    const result: { [agentId: string]: any } = {};
+  getAllAgentStates(): TAgentStates {
+    const result: AgentStateMap = {};
     for (const [agentId] of this.agents) {
       result[agentId] = this.agentInternalStates.get(agentId);
     }
-    return result;
+    return result as TAgentStates;
   }
 
   /**
@@ -157,6 +1565,99 @@ export class EventSimulation<TGlobalState, TAction> {
     return this.actionCount;
   }
 
+  /**
+   * Get agent failures handled by error policies so far
+   */
+  getErrors(): AgentError<TAction>[] {
+    return [...this.errors];
+  }
+
+  /**
+   * Get LLM calls, tokens and cost so far, in total, by agent and by action
+   * type
+   */
+  getLLMUsage(): LLMUsageReport {
+    return structuredClone(this.llmUsage);
+  }
+
+  /**
+   * Listen for simulation events: `"action"` after each processed action,
+   * `"stateChange"`, `"error"` for agent failures, `"llmCall"` after each
+   * LLM call, and `"exit"`. Returns a function that removes the listener.
+   */
+  on<K extends SimulationEventType>(
+    event: K,
+    listener: (
+      payload: SimulationEventMap<TGlobalState, TAction, TAgentStates>[K]
+    ) => void
+  ): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Iterate over simulation events as they happen. Events are buffered from
+   * the moment this is called, and iteration ends after the exit event.
+   */
+  events(): AsyncGenerator<
+    SimulationEvent<TGlobalState, TAction, TAgentStates>,
+    void
+  > {
+    type Event = SimulationEvent<TGlobalState, TAction, TAgentStates>;
+    const buffer: Event[] = [];
+    let ended = this.hasExited;
+    let wake: (() => void) | undefined;
+
+    const types: SimulationEventType[] = [
+      "action",
+      "stateChange",
+      "error",
+      "llmCall",
+      "exit",
+    ];
+    const unsubscribers = types.map((type) =>
+      this.on(type, (payload) => {
+        buffer.push({ type, ...payload } as Event);
+        wake?.();
+      })
+    );
+
+    async function* iterate(): AsyncGenerator<Event, void> {
+      try {
+        while (!ended || buffer.length > 0) {
+          const event = buffer.shift();
+          if (!event) {
+            await new Promise<void>((resolve) => (wake = resolve));
+            wake = undefined;
+            continue;
+          }
+          if (event.type === "exit") {
+            ended = true;
+          }
+          yield event;
+        }
+      } finally {
+        unsubscribers.forEach((unsubscribe) => unsubscribe());
+      }
+    }
+
+    return iterate();
+  }
+
+  /**
+   * Get the number of processed actions that no agent received, by action type
+   */
+  getUnhandledActionTypes(): { [actionType: string]: number } {
+    return Object.fromEntries(this.unhandledActions);
+  }
+
   /**
    * Check if simulation has exited
    */
@@ -165,34 +1666,221 @@ export class EventSimulation<TGlobalState, TAction> {
   }
 
   /**
-   * Returns a promise that resolves when the simulation exits
+   * Capture the full simulation state as a JSON-safe object. Take snapshots
+   * between actions (e.g. from `shouldExit`) so no action is half-applied.
+   */
+  snapshot(): SimulationSnapshot<TGlobalState, TAction> {
+    const pending = [...this.actionQueue, ...this.scheduled];
+    if (pending.some(({ to }) => typeof to === "function")) {
+      throw new Error(
+        "Cannot snapshot queued actions that are routed with a predicate"
+      );
+    }
+
+    return structuredClone({
+      globalState: this.globalState,
+      agentIds: Array.from(this.agents.keys()),
+      agentStates: Object.fromEntries(this.agentInternalStates),
+      actionQueue: this.actionQueue,
+      actionCount: this.actionCount,
+      droppedTicks: this.droppedTicks,
+      hasExited: this.hasExited,
+      tick: this.tick,
+      scheduled: this.scheduled,
+      exitReason: this.exitReason && serializeExitReason(this.exitReason),
+      hasStarted: this.hasStarted,
+      startedAgentIds: Array.from(this.agents.keys()).filter(
+        (agentId) => !this.unstartedAgents.includes(agentId)
+      ),
+      errors: this.errors.map(serializeAgentError),
+      agentStats: Object.fromEntries(this.agentStats),
+      unhandledActions: Object.fromEntries(this.unhandledActions),
+      llmCallCounts: Object.fromEntries(this.llmCallCounts),
+      llmUsage: this.llmUsage,
+      random: {
+        seed: this.seed,
+        simulation: this.random.getState(),
+        agents: Object.fromEntries(
+          Array.from(this.agentRandoms, ([agentId, random]) => [
+            agentId,
+            random.getState(),
+          ])
+        ),
+      },
+    });
+  }
+
+  /**
+   * Get the event log recorded so far (requires `record: true`)
+   */
+  getEventLog(): EventLog<TGlobalState, TAction> | undefined {
+    return this.eventLog;
+  }
+
+  /**
+   * Rebuild the run stored in the `replay` event log by applying its recorded
+   * state changes in order. Agents' `onAction` handlers are never called.
+   */
+  async replay(): Promise<void> {
+    if (!this.replayLog) {
+      throw new Error("replay() requires a simulation created with a replay log");
+    }
+
+    if (this.isProcessing || this.actionCount > 0) {
+      throw new Error("Event log has already been replayed");
+    }
+
+    this.isProcessing = true;
+    this.startedAt = Date.now();
+
+    for (const change of this.replayLog.startChanges ?? []) {
+      this.applyReplayedChange(change);
+    }
+
+    for (const { action, dispatchedBy, tick, changes } of this.replayLog
+      .entries) {
+      this.tick = tick;
+      this.eventLog?.entries.push({ action, dispatchedBy, tick, changes: [] });
+
+      for (const change of changes) {
+        this.applyReplayedChange(change);
+      }
+
+      if (await this.completeAction(action, dispatchedBy)) {
+        break;
+      }
+    }
+
+    // Runs that ended without `shouldExit` (e.g. aborted) end the same way
+    const { exitReason } = this.replayLog;
+    if (exitReason) {
+      await this.finish(this.lastAction, exitReason);
+    }
+
+    this.isProcessing = false;
+  }
+
+  /**
+   * Apply a recorded state change, keeping the agent list in step with it
    */
-  exit(): Promise<void> {
+  private applyReplayedChange(change: StateChange<TGlobalState>): void {
+    // Spawned agents are stand-ins: replay never calls their handlers
+    if (change.type === "spawn" && !this.agents.has(change.agentId)) {
+      this.agents.set(change.agentId, { id: change.agentId });
+    } else if (change.type === "remove") {
+      this.unregisterAgent(change.agentId);
+    }
+    this.applyChange(change);
+  }
+
+  /**
+   * End the run with `{ type: "idle" }` if nothing is being processed, queued
+   * or scheduled, since it could then only continue through outside
+   * dispatches. Resolves to whether the run was ended.
+   */
+  async endIfIdle(): Promise<boolean> {
+    if (
+      this.hasExited ||
+      this.isProcessing ||
+      this.actionQueue.length > 0 ||
+      this.scheduled.length > 0
+    ) {
+      return false;
+    }
+
+    await this.finish(this.lastAction, { type: "idle" });
+    return true;
+  }
+
+  /**
+   * Returns a promise that resolves to the run's result when the simulation
+   * exits
+   */
+  exit(): Promise<SimulationResult<TGlobalState, TAction, TAgentStates>> {
     return this.exitPromise;
   }
 }
 
+/**
+ * Empty LLM usage totals
+ */
+const createUsage = (): LLMUsage => ({
+  calls: 0,
+  cachedCalls: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  latencyMs: 0,
+  cost: 0,
+});
+
+/**
+ * Replace an `Error`, which JSON can't represent, with its name and message
+ */
+const serializeError = (value: unknown): unknown =>
+  value instanceof Error ? { name: value.name, message: value.message } : value;
+
+/**
+ * Copy of an agent error with the thrown value serialized
+ */
+const serializeAgentError = <TAction>(
+  failure: AgentError<TAction>
+): AgentError<TAction> => ({ ...failure, error: serializeError(failure.error) });
+
+/**
+ * Copy of an exit reason with any errors in it serialized
+ */
+const serializeExitReason = <TAction>(
+  exitReason: ExitReason<TAction>
+): ExitReason<TAction> => {
+  if (exitReason.type === "aborted") {
+    return { ...exitReason, reason: serializeError(exitReason.reason) };
+  }
+  if (exitReason.type === "error" || exitReason.type === "actionTimeout") {
+    return { ...exitReason, error: serializeAgentError(exitReason.error) };
+  }
+  return exitReason;
+};
+
+/**
+ * Read the string `type` of an action, if it has one
+ */
+const getActionType = (action: unknown): string | undefined => {
+  const type = (action as { type?: unknown } | null)?.type;
+  return typeof type === "string" ? type : undefined;
+};
+
 /**
  * Create a simulation
  */
-export const createSimulation = <TGlobalState, TAction>(
-  config: SimulationConfig<TGlobalState, TAction>
-): EventSimulation<TGlobalState, TAction> => {
+export const createSimulation = <
+  TGlobalState,
+  TAction,
+  TAgentStates extends AgentStateMap = AgentStateMap
+>(
+  config: SimulationConfig<TGlobalState, TAction, TAgentStates>
+): EventSimulation<TGlobalState, TAction, TAgentStates> => {
   return new EventSimulation(config);
 };
 
 /**
  * Utility to create an agent
  */
-export const createAgent = <TGlobalState, TAction, TInternalState = any>(
+export const createAgent = <
+  TGlobalState,
+  TAction,
+  TInternalState = any,
+  TAgentStates extends AgentStateMap = AgentStateMap
+>(
   id: string,
   onAction: (
     action: TAction,
-    context: Context<TGlobalState, TAction>
+    context: Context<TGlobalState, TAction, TInternalState, TAgentStates>
   ) => void | Promise<void>,
-  initialInternalState?: TInternalState
-): Agent<TGlobalState, TAction, TInternalState> => ({
+  initialInternalState?: TInternalState,
+  options?: AgentOptions<TAction>
+): Agent<TGlobalState, TAction, TInternalState, TAgentStates> => ({
   id,
   onAction,
   initialInternalState,
+  ...options,
 });
@@ -1,55 +1,953 @@
 // Event-driven Agent-Based Modeling framework types
 
+import type { LanguageModel } from "ai";
+import type { ZodType } from "zod";
+import type { EventSimulation } from "./simulation";
+
+/**
+ * Internal state types keyed by agent id, e.g.
+ * `{ facilitator: FacilitatorState; "value-trader": TraderState }`
+ */
+export type AgentStateMap = { [agentId: string]: any };
+
+/**
+ * An agent as seen by other agents, discriminated by its id
+ */
+export type AgentInfo<TAgentStates extends AgentStateMap = AgentStateMap> = {
+  [K in keyof TAgentStates & string]: {
+    id: K;
+    internalState: TAgentStates[K];
+  };
+}[keyof TAgentStates & string];
+
+/**
+ * The `type` values of an action union
+ */
+export type ActionType<TAction> = TAction extends { type: infer T extends string }
+  ? T
+  : never;
+
+/**
+ * Per-type action handlers, each receiving the narrowed action
+ */
+export type ActionHandlers<
+  TGlobalState,
+  TAction,
+  TInternalState = any,
+  TAgentStates extends AgentStateMap = AgentStateMap
+> = {
+  [K in ActionType<TAction>]?: (
+    action: Extract<TAction, { type: K }>,
+    context: Context<TGlobalState, TAction, TInternalState, TAgentStates>
+  ) => void | Promise<void>;
+};
+
+/**
+ * Which agents receive an action: one agent id, a list of ids, every agent
+ * with a tag, or every agent matching a predicate
+ */
+export type ActionTarget<TAgentStates extends AgentStateMap = AgentStateMap> =
+  | string
+  | string[]
+  | { tag: string }
+  | ((agent: AgentInfo<TAgentStates> & { tags: string[] }) => boolean);
+
+/**
+ * Options for dispatching an action
+ */
+export interface DispatchOptions<
+  TAgentStates extends AgentStateMap = AgentStateMap
+> {
+  /** Recipients of the action. Broadcasts to all agents when omitted. */
+  to?: ActionTarget<TAgentStates>;
+  /**
+   * Queue priority; higher priorities are processed first and equal
+   * priorities in dispatch order. Defaults to 0.
+   */
+  priority?: number;
+  /** Number of clock ticks to wait before dispatching the action */
+  delay?: number;
+}
+
+/**
+ * Order in which the recipients of an action run:
+ * - `"parallel"` starts every recipient at once
+ * - `"sequential"` runs recipients one at a time, in registration order
+ * - `"priority"` runs recipients one at a time, highest `priority` first
+ * - `"random"` runs recipients one at a time, in an order shuffled by `seed`
+ *
+ * In the one-at-a-time modes each agent sees the state left by the previous one.
+ */
+export type ExecutionMode = "parallel" | "sequential" | "priority" | "random";
+
+/**
+ * Seeded pseudo-random number generator
+ */
+export interface Random {
+  /** Next number in [0, 1) */
+  next: () => number;
+  /** Integer between `min` and `max`, inclusive */
+  int: (min: number, max: number) => number;
+  /** Random element of a non-empty array */
+  pick: <T>(items: readonly T[]) => T;
+  /** Shuffled copy of `items` */
+  shuffle: <T>(items: readonly T[]) => T[];
+  /** Normally distributed number (default mean 0, standard deviation 1) */
+  normal: (mean?: number, stdDev?: number) => number;
+  /** Generator state, from which `createRandom` continues the sequence */
+  getState: () => number;
+}
+
+/**
+ * How a failing agent handler is dealt with:
+ * - `"fail-fast"` ends the simulation and rejects the pending `dispatch`
+ * - `"skip"` records the error and carries on with the next action
+ * - `{ retry }` retries the handler with exponential backoff, then falls
+ *   back to `fallback` (default `"fail-fast"`)
+ * - `{ dispatch }` records the error and dispatches the returned action
+ */
+export type ErrorPolicy<TAction> =
+  | "fail-fast"
+  | "skip"
+  | {
+      retry: number;
+      backoffMs?: number;
+      backoffFactor?: number;
+      fallback?: "fail-fast" | "skip" | DispatchErrorPolicy<TAction>;
+    }
+  | DispatchErrorPolicy<TAction>;
+
+/**
+ * Error policy that turns a failure into an action
+ */
+export interface DispatchErrorPolicy<TAction> {
+  dispatch: (
+    error: unknown,
+    details: { action?: TAction; agentId: string }
+  ) => TAction;
+}
+
+/**
+ * An update made by an agent that had not seen the latest change to that
+ * state, reported when `detectConflicts` is enabled
+ */
+export interface StateConflict<TAction> {
+  type: "global" | "internal";
+  /** Agent whose update may overwrite a concurrent change */
+  agentId: string;
+  /** Agent that made the change it had not seen */
+  changedBy: string;
+  /** Action the updating agent was handling, if any */
+  action?: TAction;
+}
+
+/**
+ * A failure of an agent's handler or `onStart` hook that was dealt with by
+ * its error policy, or a failure in an error hook or in the simulation's own
+ * hooks or middleware, which ends the run
+ */
+export interface AgentError<TAction> {
+  /** Failing agent, or null for the simulation's hooks and middleware */
+  agentId: string | null;
+  /** Action being handled; undefined when `onStart` failed */
+  action?: TAction;
+  error: unknown;
+  message: string;
+  /** Number of times the handler was attempted */
+  attempts: number;
+}
+
+/**
+ * Options for scheduling an action on the simulation clock. Give `at` for a
+ * one-off action, `every` for a recurring one (starting at `at`, or one
+ * interval from now).
+ */
+export interface ScheduleOptions<
+  TAgentStates extends AgentStateMap = AgentStateMap
+> extends Omit<DispatchOptions<TAgentStates>, "delay"> {
+  /** Tick at which to dispatch the action */
+  at?: number;
+  /** Interval in ticks at which to repeat the action */
+  every?: number;
+}
+
+/**
+ * An action waiting on the simulation clock
+ */
+export interface ScheduledAction<TAction> extends QueuedAction<TAction> {
+  id: string;
+  at: number;
+  every?: number;
+}
+
 /**
  * Context provided to agents when they receive actions
  */
-export interface Context<TGlobalState, TAction> {
+export interface Context<
+  TGlobalState,
+  TAction,
+  TInternalState = any,
+  TAgentStates extends AgentStateMap = AgentStateMap
+> {
+  /** Global state when the action was delivered; may be stale after `await` */
   globalState: TGlobalState;
-  dispatch: (action: TAction) => void;
+  /** Current global state, including changes made by other agents */
+  getGlobalState: () => TGlobalState;
+  dispatch: (action: TAction, options?: DispatchOptions<TAgentStates>) => void;
   updateGlobalState: (updater: (state: TGlobalState) => TGlobalState) => void;
-  updateInternalState: (updater: (state: any) => any) => void;
-  internalState: any;
-  allAgents: Array<{
-    id: string;
-    internalState: any;
-  }>;
+  updateInternalState: (
+    updater: (state: TInternalState) => TInternalState
+  ) => void;
+  /** Internal state when the action was delivered; may be stale after `await` */
+  internalState: TInternalState;
+  /** Current internal state of this agent */
+  getInternalState: () => TInternalState;
+  allAgents: AgentInfo<TAgentStates>[];
+  /** Add an agent. Takes effect once the current action finishes. */
+  spawnAgent: (agent: Agent<TGlobalState, TAction, any, any>) => void;
+  /** Remove an agent and its state. Takes effect once the current action finishes. */
+  removeAgent: (agentId: string) => void;
+  /** Simulation clock tick at which the action was delivered */
+  tick: number;
+  /**
+   * Aborted when the simulation is aborted or runs past `maxDurationMs`, or
+   * when this attempt at handling the action times out; pass it to
+   * cancellable calls
+   */
+  signal: AbortSignal;
+  /** This agent's random stream, reproducible with the simulation `seed` */
+  random: Random;
+  /** Structured LLM calls through the simulation's `llm` provider */
+  llm: LLMClient;
+  /** Schedule an action on the simulation clock. Returns its schedule id. */
+  schedule: (action: TAction, options: ScheduleOptions<TAgentStates>) => string;
+  /** Cancel a scheduled action */
+  unschedule: (scheduleId: string) => void;
 }
 
 /**
  * Event-driven agent that responds to actions
  */
-export interface Agent<TGlobalState, TAction, TInternalState = any> {
+export interface Agent<
+  TGlobalState,
+  TAction,
+  TInternalState = any,
+  TAgentStates extends AgentStateMap = AgentStateMap
+> {
   id: string;
-  onAction: (action: TAction, context: Context<TGlobalState, TAction>) => void | Promise<void>;
+  /**
+   * Handles every action the agent receives. Optional when `handlers` are
+   * given; actions with a matching handler don't reach `onAction`.
+   */
+  onAction?: (
+    action: TAction,
+    context: Context<TGlobalState, TAction, TInternalState, TAgentStates>
+  ) => void | Promise<void>;
+  /** Handlers keyed by action type. Their keys count as subscriptions. */
+  handlers?: ActionHandlers<
+    TGlobalState,
+    TAction,
+    TInternalState,
+    TAgentStates
+  >;
+  /**
+   * Action types this agent handles. Agents that declare neither
+   * `subscribes` nor `handlers` receive every action.
+   */
+  subscribes?: ActionType<TAction>[];
   initialInternalState?: TInternalState;
+  /** Labels used to route actions with `{ to: { tag } }` */
+  tags?: string[];
+  /** Ordering for the `"priority"` execution mode; higher runs first (default 0) */
+  priority?: number;
+  /** Overrides the simulation's `errorPolicy` for this agent */
+  errorPolicy?: ErrorPolicy<TAction>;
+  /** Overrides the simulation's `actionTimeoutMs` for this agent */
+  actionTimeoutMs?: number;
+  /** Called once before the agent receives its first action */
+  onStart?: (
+    context: Context<TGlobalState, TAction, TInternalState, TAgentStates>
+  ) => void | Promise<void>;
+  /** Called before each action this agent receives */
+  onBeforeAction?: (
+    action: TAction,
+    context: Context<TGlobalState, TAction, TInternalState, TAgentStates>
+  ) => void | Promise<void>;
+  /** Called after this agent has handled an action */
+  onAfterAction?: (
+    action: TAction,
+    context: Context<TGlobalState, TAction, TInternalState, TAgentStates>
+  ) => void | Promise<void>;
+  /** Called when the simulation exits */
+  onExit?: (
+    context: Context<TGlobalState, TAction, TInternalState, TAgentStates>
+  ) => void | Promise<void>;
+  /**
+   * Called when this agent's handler fails after any retries, or its
+   * `onStart` fails (with no action)
+   */
+  onError?: (
+    error: unknown,
+    action: TAction | undefined,
+    context: Context<TGlobalState, TAction, TInternalState, TAgentStates>
+  ) => void | Promise<void>;
+}
+
+/**
+ * Optional agent settings accepted by `createAgent`
+ */
+export interface AgentOptions<TAction = any> {
+  tags?: string[];
+  priority?: number;
+  subscribes?: ActionType<TAction>[];
+}
+
+/**
+ * A structured-output request to a language model
+ */
+export interface LLMRequest<T> {
+  schema: ZodType<T, any, any>;
+  prompt: string;
+  system?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * A language model's answer to an `LLMRequest`
+ */
+export interface LLMResponse<T> {
+  object: T;
+  usage?: { promptTokens: number; completionTokens: number };
+}
+
+/**
+ * Source of structured LLM output, such as the AI SDK adapter or a mock
+ */
+export interface LLMProvider {
+  /** Identifies the model behind the provider, e.g. `"openai.chat:gpt-4o-mini"` */
+  id: string;
+  generateObject: <T>(request: LLMRequest<T>) => Promise<LLMResponse<T>>;
+}
+
+/**
+ * Provider created by `createMockProvider`, recording the requests it receives
+ */
+export interface MockProvider extends LLMProvider {
+  requests: LLMRequest<unknown>[];
+}
+
+/**
+ * Store for LLM responses, such as `createMemoryCache()` or
+ * `createFileCache(directory)`
+ */
+export interface LLMCache {
+  get: (key: string) => Promise<LLMResponse<unknown> | undefined>;
+  set: (key: string, response: LLMResponse<unknown>) => Promise<void>;
+}
+
+/**
+ * Limits for an LLM pool. Unset limits are unlimited.
+ */
+export interface LLMPoolLimits {
+  /** Calls in flight at once */
+  concurrency?: number;
+  /** Calls started in any 60 second window */
+  requestsPerMinute?: number;
+  /** Prompt and completion tokens used in any 60 second window */
+  tokensPerMinute?: number;
+}
+
+/**
+ * Agent making a pooled LLM call, and the simulation it belongs to
+ */
+export interface LLMPoolCaller {
+  simulationId: string;
+  agentId: string;
+}
+
+/**
+ * Queue that LLM calls wait in until the pool's limits allow them to start,
+ * such as `createLLMPool(limits)`
+ */
+export interface LLMPool {
+  schedule: <T>(
+    caller: LLMPoolCaller,
+    estimatedTokens: number,
+    call: () => Promise<LLMResponse<T>>,
+    signal?: AbortSignal
+  ) => Promise<LLMResponse<T>>;
+}
+
+/**
+ * Price of a model in currency units (e.g. dollars) per million tokens
+ */
+export interface LLMPricing {
+  promptPerMillion: number;
+  completionPerMillion: number;
+}
+
+/**
+ * One `context.llm` call. Cached calls use no tokens and cost nothing.
+ */
+export interface LLMCall {
+  agentId: string;
+  /** Type of the action being handled, if any */
+  actionType?: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  /** Estimated from `llmPricing`; 0 for models without a price */
+  cost: number;
+  cached: boolean;
+}
+
+/**
+ * Totals over a set of LLM calls
+ */
+export interface LLMUsage {
+  calls: number;
+  cachedCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  cost: number;
+}
+
+/**
+ * LLM usage of a run, in total and broken down by agent and action type
+ */
+export interface LLMUsageReport {
+  total: LLMUsage;
+  byAgent: { [agentId: string]: LLMUsage };
+  byActionType: { [actionType: string]: LLMUsage };
+}
+
+/**
+ * Options for a single `context.llm` call
+ */
+export interface LLMCallOptions {
+  system?: string;
+  /** Use this provider instead of the simulation's `llm` */
+  provider?: LLMProvider;
+}
+
+/**
+ * LLM access given to agents as `context.llm`. Calls go through the
+ * simulation's provider and are cancelled when the simulation is aborted.
+ */
+export interface LLMClient {
+  generateObject: <T>(
+    schema: ZodType<T, any, any>,
+    prompt: string,
+    options?: LLMCallOptions
+  ) => Promise<T>;
+}
+
+/**
+ * Internal state of an agent created with `createLLMAgent`
+ */
+export interface LLMAgentState<TDecision> {
+  /** The agent's most recent decisions, oldest first */
+  memory: TDecision[];
+}
+
+/**
+ * Options for `createLLMAgent`
+ */
+export interface LLMAgentOptions<
+  TGlobalState,
+  TAction,
+  TDecision,
+  TAgentStates extends AgentStateMap = AgentStateMap
+> extends AgentOptions<TAction> {
+  id: string;
+  /** System prompt describing who the agent is */
+  persona: string;
+  /** Schema of the structured decision the model must return */
+  schema: ZodType<TDecision, any, any>;
+  /** AI SDK model or provider to use instead of the simulation's `llm` */
+  model?: LanguageModel | LLMProvider;
+  /**
+   * Prompt for an action, or undefined to ignore the action without
+   * calling the model
+   */
+  buildPrompt: (
+    action: TAction,
+    context: Context<
+      TGlobalState,
+      TAction,
+      LLMAgentState<TDecision>,
+      TAgentStates
+    >
+  ) => string | undefined;
+  /** Act on the model's decision, e.g. by dispatching or updating state */
+  onDecision: (
+    decision: TDecision,
+    action: TAction,
+    context: Context<
+      TGlobalState,
+      TAction,
+      LLMAgentState<TDecision>,
+      TAgentStates
+    >
+  ) => void | Promise<void>;
+  /** Extra attempts after a failed or malformed response (default 2) */
+  retries?: number;
+  /** Number of past decisions to remember and include in prompts (default 0) */
+  memory?: number;
 }
 
 /**
  * Context provided to shouldExit function for exit condition evaluation
  */
-export interface ExitContext<TGlobalState, TAction> {
+export interface ExitContext<
+  TGlobalState,
+  TAction,
+  TAgentStates extends AgentStateMap = AgentStateMap
+> {
   globalState: TGlobalState;
-  agentStates: { [agentId: string]: any };
+  agentStates: TAgentStates;
+  /** Action that was just processed */
   lastAction: TAction;
   actionCount: number;
+  /** Current simulation clock tick */
+  tick: number;
+  /** Agent failures so far */
+  errors: AgentError<TAction>[];
+}
+
+/**
+ * Context provided to `onExit` and the `"exit"` event
+ */
+export interface OnExitContext<
+  TGlobalState,
+  TAction,
+  TAgentStates extends AgentStateMap = AgentStateMap
+> extends Omit<ExitContext<TGlobalState, TAction, TAgentStates>, "lastAction"> {
+  /** Most recently processed action; undefined if the run ended before any */
+  lastAction: TAction | undefined;
+}
+
+/**
+ * Why a simulation ended
+ */
+export type ExitReason<TAction> =
+  /** `shouldExit` returned true, or the name of the condition that fired */
+  | { type: "shouldExit"; condition?: string }
+  /** `abort()` was called */
+  | { type: "aborted"; reason?: unknown }
+  /** An agent failed under the fail-fast error policy */
+  | { type: "error"; error: AgentError<TAction> }
+  /** An agent exceeded `actionTimeoutMs` under the fail-fast error policy */
+  | { type: "actionTimeout"; error: AgentError<TAction> }
+  /** `maxActions` was reached */
+  | { type: "maxActions" }
+  /** `maxDurationMs` was exceeded */
+  | { type: "maxDuration" }
+  /** LLM spending exceeded `llmBudget` */
+  | { type: "llmBudget" }
+  /** Nothing was left to process before `shouldExit` fired (see `endIfIdle()`) */
+  | { type: "idle" };
+
+/**
+ * What an agent did during a run
+ */
+export interface AgentStats {
+  /** Actions delivered to the agent */
+  actionsHandled: number;
+  /** Actions whose handling failed after any retries */
+  errors: number;
+  /** Updates the agent made to global state and its own internal state */
+  stateChanges: number;
+  /** Wall-clock time spent in the agent's handlers and action hooks */
+  busyMs: number;
+}
+
+/**
+ * Outcome of a simulation run, resolved by `exit()`
+ */
+export interface SimulationResult<
+  TGlobalState,
+  TAction,
+  TAgentStates extends AgentStateMap = AgentStateMap
+> {
+  globalState: TGlobalState;
+  agentStates: TAgentStates;
+  actionCount: number;
+  tick: number;
+  /** Wall-clock time from the first processed action to exit */
+  durationMs: number;
+  exitReason: ExitReason<TAction>;
+  agentStats: { [agentId: string]: AgentStats };
+  errors: AgentError<TAction>[];
+  llmUsage: LLMUsageReport;
+}
+
+/**
+ * Values to sweep for each parameter; every combination is run
+ */
+export type ParameterGrid<TParams> = { [K in keyof TParams]: TParams[K][] };
+
+/**
+ * Options for `runBatch`
+ */
+export interface BatchOptions<
+  TParams,
+  TGlobalState,
+  TAction,
+  TAgentStates extends AgentStateMap = AgentStateMap
+> {
+  /** Build the config for one run. The seed is applied unless the config sets its own. */
+  build: (
+    params: TParams,
+    seed: number
+  ) => SimulationConfig<TGlobalState, TAction, TAgentStates>;
+  /** A grid of values to combine, or an explicit list of parameter sets */
+  params: ParameterGrid<TParams> | TParams[];
+  /** Seeds to run each parameter set with (default `[0]`) */
+  seeds?: number[];
+  /** Number of simulations to run at once (default 1) */
+  concurrency?: number;
+  /**
+   * Kick off a run, e.g. by dispatching its first action. Defaults to
+   * `simulation.run()`, which is enough when `onStart` hooks dispatch.
+   */
+  start?: (
+    simulation: EventSimulation<TGlobalState, TAction, TAgentStates>,
+    params: TParams,
+    seed: number
+  ) => void | Promise<void>;
+  /** Called as each run finishes, e.g. to report progress */
+  onRunComplete?: (
+    run: BatchRun<TParams, TGlobalState, TAction, TAgentStates>,
+    index: number,
+    total: number
+  ) => void;
+}
+
+/**
+ * One row of a batch: the parameters and seed of a run, and its result
+ */
+export interface BatchRun<
+  TParams,
+  TGlobalState,
+  TAction,
+  TAgentStates extends AgentStateMap = AgentStateMap
+> {
+  params: TParams;
+  seed: number;
+  result: SimulationResult<TGlobalState, TAction, TAgentStates>;
+}
+
+/**
+ * Context provided to simulation-level lifecycle hooks
+ */
+export interface SimulationContext<
+  TGlobalState,
+  TAction,
+  TAgentStates extends AgentStateMap = AgentStateMap
+> {
+  globalState: TGlobalState;
+  agentStates: TAgentStates;
+  actionCount: number;
+  tick: number;
+  dispatch: (action: TAction, options?: DispatchOptions<TAgentStates>) => void;
+  schedule: (action: TAction, options: ScheduleOptions<TAgentStates>) => string;
+  /** The simulation's random stream, also used by the `"random"` execution mode */
+  random: Random;
 }
 
+/**
+ * Redux-style middleware wrapped around every action before it is queued.
+ * Call `next` to pass an action on (possibly transformed), skip it to drop
+ * the action, or call it more than once to duplicate it. `next` may also be
+ * called later, e.g. from a timer to rate-limit actions.
+ */
+export type Middleware<
+  TGlobalState,
+  TAction,
+  TAgentStates extends AgentStateMap = AgentStateMap
+> = (
+  action: TAction,
+  next: (action: TAction) => void,
+  simulation: EventSimulation<TGlobalState, TAction, TAgentStates>
+) => void;
+
 /**
  * Configuration for creating an event-driven simulation
  */
-export interface SimulationConfig<TGlobalState, TAction> {
+export interface SimulationConfig<
+  TGlobalState,
+  TAction,
+  TAgentStates extends AgentStateMap = AgentStateMap
+> {
+  initialGlobalState: TGlobalState;
+  agents: Agent<TGlobalState, TAction, any, any>[];
+  /**
+   * Return true to end the simulation, or a string naming the condition
+   * that fired, which is reported as the result's `exitReason.condition`
+   */
+  shouldExit: (
+    context: ExitContext<TGlobalState, TAction, TAgentStates>
+  ) => boolean | string;
+  /**
+   * Record every processed action and state change into an event log,
+   * available through `getEventLog()`
+   */
+  record?: boolean;
+  /**
+   * Event log to replay instead of running agents. When set, `onAction` is
+   * never called and `replay()` rebuilds the recorded run.
+   */
+  replay?: EventLog<TGlobalState, TAction>;
+  /**
+   * Resume from a snapshot taken with `snapshot()`. Agents are still taken
+   * from `agents` (include any that were spawned at runtime); their internal
+   * states come from the snapshot.
+   */
+  fromSnapshot?: SimulationSnapshot<TGlobalState, TAction>;
+  /** Order in which the recipients of an action run (default `"parallel"`) */
+  executionMode?: ExecutionMode;
+  /**
+   * Seed for `context.random` and the `"random"` execution mode. Each agent
+   * gets its own stream derived from the seed and its id. Random when omitted.
+   */
+  seed?: number;
+  /**
+   * Report updates made without having seen the latest change to that
+   * state. `true` logs a warning; a function receives each conflict.
+   * Reading through `getGlobalState()`/`getInternalState()` counts as seeing
+   * the latest change.
+   */
+  detectConflicts?: boolean | ((conflict: StateConflict<TAction>) => void);
+  /** How failing agent handlers are dealt with (default `"fail-fast"`) */
+  errorPolicy?: ErrorPolicy<TAction>;
+  /** Provider behind `context.llm` */
+  llm?: LLMProvider;
+  /**
+   * Reuse earlier responses for identical `context.llm` calls, keyed by
+   * model, prompts, schema and `seed`
+   */
+  llmCache?: LLMCache;
+  /**
+   * Limit concurrent `context.llm` calls and their rate. Pass limits for a
+   * pool of this simulation's own, or a pool to share with other simulations.
+   */
+  llmPool?: LLMPoolLimits | LLMPool;
+  /** Prices by provider id (e.g. `"openai.chat:gpt-4o-mini"`) for cost estimates */
+  llmPricing?: { [model: string]: LLMPricing };
+  /**
+   * End the run, after the current action, once LLM spending exceeds a
+   * limit. Later `context.llm` calls reject with an `LLMBudgetError`.
+   */
+  llmBudget?: { maxCost?: number; maxTokens?: number };
+  /**
+   * End the run after this many processed actions, whatever `shouldExit`
+   * says. Ticks on which middleware drops every due action count too.
+   */
+  maxActions?: number;
+  /**
+   * End the run once this much wall-clock time has passed since processing
+   * began, aborting `context.signal` for handlers still running
+   */
+  maxDurationMs?: number;
+  /**
+   * Fail an agent's handling of an action that takes longer than this,
+   * with an `ActionTimeoutError` that goes through the error policy
+   */
+  actionTimeoutMs?: number;
+  /**
+   * Middleware applied, first to last, to dispatched actions and to
+   * scheduled actions as they fall due. Not applied during replay.
+   */
+  middleware?: Middleware<TGlobalState, TAction, TAgentStates>[];
+  /**
+   * Schema every dispatched or scheduled action must match, checked after
+   * middleware (and for scheduled actions, also when scheduled). Failures
+   * throw a `ValidationError`, which goes through the error policy when
+   * raised in an agent.
+   */
+  actionSchema?: ZodType<TAction, any, any>;
+  /**
+   * Schema the initial global state and every `updateGlobalState` result
+   * must match
+   */
+  globalStateSchema?: ZodType<TGlobalState, any, any>;
+  /** Called once before the first action is processed */
+  onStart?: (
+    context: SimulationContext<TGlobalState, TAction, TAgentStates>
+  ) => void | Promise<void>;
+  /** Called before each action is delivered to agents */
+  onBeforeAction?: (
+    action: TAction,
+    context: SimulationContext<TGlobalState, TAction, TAgentStates>
+  ) => void | Promise<void>;
+  /** Called after every recipient has handled an action */
+  onAfterAction?: (
+    action: TAction,
+    context: SimulationContext<TGlobalState, TAction, TAgentStates>
+  ) => void | Promise<void>;
+  /**
+   * Called when the simulation ends, through `shouldExit` or a fail-fast
+   * error, after agents' `onExit`
+   */
+  onExit?: (
+    context: OnExitContext<TGlobalState, TAction, TAgentStates>
+  ) => void | Promise<void>;
+  /** Called when any agent's handler or `onStart` fails after any retries */
+  onError?: (
+    error: unknown,
+    details: { action?: TAction; agentId: string }
+  ) => void | Promise<void>;
+}
+
+/**
+ * JSON-safe capture of a simulation's full state, used to resume a run.
+ * Errors in `exitReason` are stored as `{ name, message }`.
+ */
+export interface SimulationSnapshot<TGlobalState, TAction> {
+  globalState: TGlobalState;
+  agentIds: string[];
+  agentStates: { [agentId: string]: any };
+  actionQueue: QueuedAction<TAction>[];
+  actionCount: number;
+  /** Ticks on which middleware dropped every due action */
+  droppedTicks?: number;
+  hasExited: boolean;
+  tick: number;
+  scheduled: ScheduledAction<TAction>[];
+  /** Set once the simulation has exited */
+  exitReason?: ExitReason<TAction>;
+  /** Whether `onStart` has run, so resuming doesn't run it again */
+  hasStarted?: boolean;
+  /** Agents whose `onStart` has run */
+  startedAgentIds?: string[];
+  /** Errors so far, with thrown values serialized */
+  errors?: AgentError<TAction>[];
+  agentStats?: { [agentId: string]: AgentStats };
+  /** Counts of actions no agent received, by action type */
+  unhandledActions?: { [actionType: string]: number };
+  /**
+   * How often each LLM call has been made, keyed by a hash of the call, so
+   * cached completions replay in order
+   */
+  llmCallCounts?: { [callKey: string]: number };
+  /** LLM spend so far, which counts toward `llmBudget` after resuming */
+  llmUsage?: LLMUsageReport;
+  /** Seed and random generator states, so a resumed run stays reproducible */
+  random?: {
+    seed: number;
+    simulation: number;
+    agents: { [agentId: string]: number };
+  };
+}
+
+/**
+ * A single state change made while processing an action
+ */
+export type StateChange<TGlobalState> =
+  | { type: "global"; agentId: string; state: TGlobalState }
+  | { type: "internal"; agentId: string; state: any }
+  | { type: "spawn"; agentId: string; state: any }
+  | { type: "remove"; agentId: string };
+
+/**
+ * A processed action together with who dispatched it and what it changed
+ */
+export interface EventLogEntry<TGlobalState, TAction> {
+  action: TAction;
+  /** Id of the dispatching agent, or null for external dispatches */
+  dispatchedBy: string | null;
+  /** Simulation clock tick at which the action was processed */
+  tick: number;
+  changes: StateChange<TGlobalState>[];
+}
+
+/**
+ * An action waiting in the queue, along with where it came from
+ */
+export interface QueuedAction<TAction> {
+  action: TAction;
+  dispatchedBy: string | null;
+  to?: ActionTarget;
+  priority?: number;
+}
+
+/**
+ * Payloads of the events emitted by a running simulation, keyed by event name
+ */
+export interface SimulationEventMap<
+  TGlobalState,
+  TAction,
+  TAgentStates extends AgentStateMap = AgentStateMap
+> {
+  /** An action has been processed by all of its recipients */
+  action: {
+    action: TAction;
+    dispatchedBy: string | null;
+    tick: number;
+    actionCount: number;
+  };
+  /** Global or agent state has changed */
+  stateChange: { change: StateChange<TGlobalState>; tick: number };
+  /** An agent's handler failed */
+  error: AgentError<TAction>;
+  /** The simulation has ended */
+  exit: OnExitContext<TGlobalState, TAction, TAgentStates>;
+  /** An agent made an LLM call through `context.llm` */
+  llmCall: LLMCall;
+}
+
+/**
+ * Name of an event emitted by a simulation
+ */
+export type SimulationEventType = keyof SimulationEventMap<unknown, unknown>;
+
+/**
+ * An event yielded by `events()`, discriminated by `type`
+ */
+export type SimulationEvent<
+  TGlobalState,
+  TAction,
+  TAgentStates extends AgentStateMap = AgentStateMap
+> = {
+  [K in SimulationEventType]: { type: K } & SimulationEventMap<
+    TGlobalState,
+    TAction,
+    TAgentStates
+  >[K];
+}[SimulationEventType];
+
+/**
+ * Serializable record of a simulation run, usable for deterministic replay
+ */
+export interface EventLog<TGlobalState, TAction> {
   initialGlobalState: TGlobalState;
-  agents: Agent<TGlobalState, TAction, any>[];
-  shouldExit: (context: ExitContext<TGlobalState, TAction>) => boolean;
+  initialAgentStates: { [agentId: string]: any };
+  /** Changes made before the first action, e.g. by `onStart` hooks */
+  startChanges?: StateChange<TGlobalState>[];
+  entries: EventLogEntry<TGlobalState, TAction>[];
+  /** Why the run ended, once it has; errors are stored as `{ name, message }` */
+  exitReason?: ExitReason<TAction>;
 }
 
 /**
  * Manages action dispatch and agent coordination
  */
-export interface ActionDispatcher<TGlobalState, TAction> {
-  dispatch: (action: TAction) => void | Promise<void>;
+export interface ActionDispatcher<
+  TGlobalState,
+  TAction,
+  TAgentStates extends AgentStateMap = AgentStateMap
+> {
+  dispatch: (
+    action: TAction,
+    options?: DispatchOptions<TAgentStates>
+  ) => void | Promise<void>;
   getGlobalState: () => TGlobalState;
-  getAgentInternalState: (agentId: string) => any;
+  getAgentInternalState: <K extends keyof TAgentStates & string>(
+    agentId: K
+  ) => TAgentStates[K];
 }
 
 
@@ -0,0 +1,57 @@
+import type { ZodIssue, ZodType } from "zod";
+
+/**
+ * Thrown when a dispatched action or a global state update doesn't match the
+ * schema given in the simulation config
+ */
+export class ValidationError extends Error {
+  /** What failed validation */
+  readonly target: "action" | "globalState";
+  /** The rejected value */
+  readonly value: unknown;
+  /** Agent that dispatched the action or made the update, if any */
+  readonly agentId: string | null;
+  readonly issues: ZodIssue[];
+
+  constructor(
+    target: "action" | "globalState",
+    value: unknown,
+    agentId: string | null,
+    issues: ZodIssue[]
+  ) {
+    const subject = target === "action" ? "action" : "global state";
+    const source = agentId ? ` from agent "${agentId}"` : "";
+    const details = issues
+      .map(({ path, message }) =>
+        path.length > 0 ? `${path.join(".")}: ${message}` : message
+      )
+      .join("; ");
+    super(`Invalid ${subject}${source}: ${details}`);
+    this.name = "ValidationError";
+    this.target = target;
+    this.value = value;
+    this.agentId = agentId;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Parse a value with an optional schema, returning the parsed value or
+ * throwing a `ValidationError`
+ */
+export const validate = <T>(
+  schema: ZodType<T, any, any> | undefined,
+  value: T,
+  target: ValidationError["target"],
+  agentId: string | null
+): T => {
+  if (!schema) {
+    return value;
+  }
+
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw new ValidationError(target, value, agentId, result.error.issues);
+  }
+  return result.data;
+};